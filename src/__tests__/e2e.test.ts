@@ -1,11 +1,29 @@
 import { describe, test, expect, beforeAll, afterAll } from "bun:test";
 import type { Subprocess } from "bun";
+import { Database } from "bun:sqlite";
+import crypto from "node:crypto";
 import fs from "node:fs";
+import os from "node:os";
 import path from "node:path";
+import zlib from "node:zlib";
 
 const PROJECT_ROOT = path.resolve(import.meta.dirname, "..", "..");
 const SRC_DIR = path.join(PROJECT_ROOT, "src");
 const CACHE_DIR = path.join(PROJECT_ROOT, "cache");
+const DATA_DIR = path.join(PROJECT_ROOT, "data");
+// The servers use the project's own directories and upstreams, whatever
+// unit tests set
+const SERVER_ENV: Record<string, string | undefined> = {
+  ...process.env,
+  CACHE_DIR,
+  DATA_DIR,
+  STORAGE_DIR: path.join(DATA_DIR, "packages"),
+};
+delete SERVER_ENV.UPSTREAMS_FILE;
+delete SERVER_ENV.CHANGES_URL;
+
+// Stats are asked for from here on, across however many hours the run spans
+const SUITE_START = Date.now();
 
 const REGISTRY_PORT = 14873;
 const API_PORT = 14000;
@@ -14,6 +32,31 @@ const API_URL = `http://localhost:${API_PORT}`;
 
 const TEST_PACKAGE = "express";
 const CACHE_FILE = path.join(CACHE_DIR, `${TEST_PACKAGE}.json`);
+const CORGI_FILE = path.join(CACHE_DIR, "corgi", `${TEST_PACKAGE}.json`);
+const CACHED_FILES = [CACHE_FILE, CORGI_FILE].flatMap((f) => [
+  f,
+  `${f}.br`,
+  `${f}.gz`,
+]);
+const CORGI_ACCEPT =
+  "application/vnd.npm.install-v1+json; q=1.0, application/json; q=0.8, */*";
+const TEST_USER = { name: "upm-e2e", password: "upm-e2e-password" };
+const OTHER_USER = { name: "upm-e2e-other", password: "upm-e2e-password" };
+
+// npm login: creates the user on first run, logs in afterwards
+async function login(user = TEST_USER): Promise<string> {
+  const res = await fetch(
+    `${REGISTRY_URL}/-/user/org.couchdb.user:${user.name}`,
+    {
+      method: "PUT",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ ...user, type: "user", roles: [] }),
+    },
+  );
+  expect(res.status).toBe(201);
+  const { token } = (await res.json()) as { token: string };
+  return token;
+}
 
 async function waitForOutput(
   proc: Subprocess,
@@ -52,23 +95,30 @@ describe("upm-registry e2e", () => {
 
   beforeAll(async () => {
     // Remove cached express metadata to guarantee a miss on first fetch
-    try {
-      fs.unlinkSync(CACHE_FILE);
-    } catch {}
+    for (const file of CACHED_FILES) {
+      try {
+        fs.unlinkSync(file);
+      } catch {}
+    }
     try {
       fs.unlinkSync(path.join(CACHE_DIR, "raw", `${TEST_PACKAGE}.json`));
     } catch {}
 
     // Start the registry proxy server
     serverProc = Bun.spawn([process.execPath, path.join(SRC_DIR, "server.ts")], {
-      env: { ...process.env, PORT: String(REGISTRY_PORT) },
+      env: {
+        ...SERVER_ENV,
+        PORT: String(REGISTRY_PORT),
+        PUBLIC_URL: REGISTRY_URL,
+        ALLOW_SIGNUP: "1",
+      },
       stdout: "pipe",
       stderr: "inherit",
     });
 
     // Start the API server
     apiProc = Bun.spawn([process.execPath, path.join(SRC_DIR, "api.ts")], {
-      env: { ...process.env, API_PORT: String(API_PORT) },
+      env: { ...SERVER_ENV, API_PORT: String(API_PORT) },
       stdout: "pipe",
       stderr: "inherit",
     });
@@ -89,9 +139,11 @@ describe("upm-registry e2e", () => {
     await Promise.all([serverProc?.exited, apiProc?.exited]);
 
     // Clean up test cache entry
-    try {
-      fs.unlinkSync(CACHE_FILE);
-    } catch {}
+    for (const file of CACHED_FILES) {
+      try {
+        fs.unlinkSync(file);
+      } catch {}
+    }
   });
 
   test("strips metadata and reports correct bandwidth savings", async () => {
@@ -110,6 +162,11 @@ describe("upm-registry e2e", () => {
 
     // Verify it's valid npm metadata
     expect(meta1.name).toBe(TEST_PACKAGE);
+    const firstTarball = (Object.values(meta1.versions)[0] as any).dist
+      .tarball as string;
+    expect(firstTarball.startsWith(`${REGISTRY_URL}/${TEST_PACKAGE}/-/`)).toBe(
+      true,
+    );
     expect(meta1["dist-tags"]).toBeDefined();
     expect(meta1.versions).toBeDefined();
     expect(Object.keys(meta1.versions).length).toBeGreaterThan(0);
@@ -124,9 +181,32 @@ describe("upm-registry e2e", () => {
     const strippedSize = fs.statSync(CACHE_FILE).size;
     expect(strippedSize).toBeLessThan(firstFetchSize);
 
-    // Second fetch: cache hit — served from stripped cache
+    // The miss announced the validators the cached copy now has
+    const missEtag = res1.headers.get("etag")!;
+    const missModified = res1.headers.get("last-modified")!;
+    expect(missEtag).toMatch(/^W\/"[\w-]+-gzip"$/);
+    expect(new Date(missModified).getTime()).toBe(
+      Math.floor(fs.statSync(CACHE_FILE).mtimeMs / 1000) * 1000,
+    );
+    const conditionals: Record<string, string>[] = [
+      { "if-none-match": missEtag },
+      { "if-modified-since": missModified },
+    ];
+    for (const conditional of conditionals) {
+      const revalidated = await fetch(`${REGISTRY_URL}/${TEST_PACKAGE}`, {
+        headers: {
+          accept: "application/json",
+          "accept-encoding": "gzip",
+          ...conditional,
+        },
+      });
+      expect(revalidated.status).toBe(304);
+    }
+
+    // Second fetch: cache hit — served from stripped cache, uncompressed so
+    // the bytes on the wire are the document itself
     const res2 = await fetch(`${REGISTRY_URL}/${TEST_PACKAGE}`, {
-      headers: { accept: "application/json" },
+      headers: { accept: "application/json", "accept-encoding": "identity" },
     });
     expect(res2.status).toBe(200);
 
@@ -134,9 +214,17 @@ describe("upm-registry e2e", () => {
     const meta2 = JSON.parse(body2);
     const secondFetchSize = Buffer.byteLength(body2);
 
-    // Stripped response should be smaller and match the cache file
+    // Stripped response should be smaller and match the cache file,
+    // with tarball URLs pointing back at the proxy
+    const expectedBody = fs
+      .readFileSync(CACHE_FILE, "utf8")
+      .replaceAll(
+        '"tarball":"https://registry.npmjs.org/',
+        `"tarball":"${REGISTRY_URL}/`,
+      );
     expect(secondFetchSize).toBeLessThan(firstFetchSize);
-    expect(secondFetchSize).toBe(strippedSize);
+    expect(body2).toBe(expectedBody);
+    const servedSize = Buffer.byteLength(expectedBody);
 
     // Verify stripped metadata structure
     expect(meta2.name).toBe(TEST_PACKAGE);
@@ -151,20 +239,40 @@ describe("upm-registry e2e", () => {
     const allowedFields = new Set([
       "name",
       "version",
+      "deprecated",
       "dependencies",
       "optionalDependencies",
       "peerDependencies",
       "peerDependenciesMeta",
+      "bundleDependencies",
+      "bundledDependencies",
+      "acceptDependencies",
       "bin",
+      "directories",
       "engines",
       "os",
       "cpu",
+      "libc",
+      "funding",
+      "hasInstallScript",
+      "_hasShrinkwrap",
       "dist",
     ]);
     for (const key of Object.keys(someVersion)) {
       expect(allowedFields.has(key)).toBe(true);
     }
 
+    // Every served version keeps its publish time for release-age policies
+    expect(meta2.time).toBeDefined();
+    for (const ver of Object.keys(meta2.versions)) {
+      expect(typeof meta2.time[ver]).toBe("string");
+    }
+    for (const key of Object.keys(meta2.time)) {
+      expect(
+        key === "created" || key === "modified" || key in meta2.versions,
+      ).toBe(true);
+    }
+
     // Bloat fields should be gone
     expect(someVersion).not.toHaveProperty("description");
     expect(someVersion).not.toHaveProperty("readme");
@@ -173,7 +281,15 @@ describe("upm-registry e2e", () => {
     // Verify dist only has allowed fields
     const dist = someVersion.dist as Record<string, unknown>;
     expect(dist).toBeDefined();
-    const allowedDistFields = new Set(["tarball", "integrity", "shasum"]);
+    const allowedDistFields = new Set([
+      "tarball",
+      "integrity",
+      "shasum",
+      "fileCount",
+      "unpackedSize",
+      "signatures",
+      "attestations",
+    ]);
     for (const key of Object.keys(dist)) {
       expect(allowedDistFields.has(key)).toBe(true);
     }
@@ -201,10 +317,793 @@ describe("upm-registry e2e", () => {
       (statsBefore as any).bandwidth.totalServed;
 
     expect(savedDelta).toBeGreaterThan(0);
-    expect(servedDelta).toBe(strippedSize);
+    expect(servedDelta).toBe(servedSize);
 
     // Savings ratio should be significant (express metadata strips > 30%)
     const pct = savedDelta / (servedDelta + savedDelta);
     expect(pct).toBeGreaterThan(0.3);
   }, 60_000);
+
+  test("stores tarballs by integrity and serves them from disk", async () => {
+    const meta = JSON.parse(fs.readFileSync(CACHE_FILE, "utf8"));
+    const version = meta["dist-tags"].latest as string;
+    const integrity = meta.versions[version].dist.integrity as string;
+    const hex = Buffer.from(
+      integrity.slice("sha512-".length),
+      "base64",
+    ).toString("hex");
+    const storeFile = path.join(
+      CACHE_DIR,
+      "tarballs",
+      "sha512",
+      hex.slice(0, 2),
+      hex,
+    );
+    try {
+      fs.unlinkSync(storeFile);
+    } catch {}
+
+    // Tarball URL as advertised by the proxy's own metadata
+    const served = await fetch(`${REGISTRY_URL}/${TEST_PACKAGE}`).then((r) =>
+      r.json(),
+    );
+    const tarballUrl = (served as any).versions[version].dist.tarball as string;
+    expect(tarballUrl).toBe(
+      `${REGISTRY_URL}/${TEST_PACKAGE}/-/${TEST_PACKAGE}-${version}.tgz`,
+    );
+
+    // First fetch: relayed from upstream and verified into the store
+    const res1 = await fetch(tarballUrl);
+    expect(res1.status).toBe(200);
+    const body1 = Buffer.from(await res1.arrayBuffer());
+    const digest = crypto.createHash("sha512").update(body1).digest("hex");
+    expect(digest).toBe(hex);
+
+    const storeDeadline = Date.now() + 10_000;
+    while (!fs.existsSync(storeFile) && Date.now() < storeDeadline) {
+      await Bun.sleep(100);
+    }
+    expect(fs.existsSync(storeFile)).toBe(true);
+
+    // Second fetch: served from the content-addressed store
+    const res2 = await fetch(tarballUrl);
+    expect(res2.status).toBe(200);
+    expect(res2.headers.get("content-type")).toBe("application/octet-stream");
+    const body2 = Buffer.from(await res2.arrayBuffer());
+    expect(body2.equals(body1)).toBe(true);
+  }, 30_000);
+
+  test("serves the abbreviated document when asked for it", async () => {
+    expect(fs.existsSync(CORGI_FILE)).toBe(true);
+
+    const res = await fetch(`${REGISTRY_URL}/${TEST_PACKAGE}`, {
+      headers: { accept: CORGI_ACCEPT },
+    });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe(
+      "application/vnd.npm.install-v1+json",
+    );
+    expect(res.headers.get("vary")).toContain("accept");
+
+    const corgi = (await res.json()) as any;
+    expect(corgi.name).toBe(TEST_PACKAGE);
+    expect(typeof corgi.modified).toBe("string");
+    const latest = corgi.versions[corgi["dist-tags"].latest];
+    expect(latest).not.toHaveProperty("description");
+    expect(latest.dist.tarball.startsWith(`${REGISTRY_URL}/`)).toBe(true);
+
+    // The full document is still what plain JSON clients get
+    const full = await fetch(`${REGISTRY_URL}/${TEST_PACKAGE}`, {
+      headers: { accept: "application/json" },
+    });
+    expect(full.headers.get("content-type")).toBe("application/json");
+  });
+
+  test("answers conditional requests with 304", async () => {
+    const statsBefore = (await fetch(`${API_URL}/stats`).then((r) =>
+      r.json(),
+    )) as any;
+
+    const res = await fetch(`${REGISTRY_URL}/${TEST_PACKAGE}`);
+    expect(res.status).toBe(200);
+    await res.arrayBuffer();
+    const etag = res.headers.get("etag")!;
+    const lastModified = res.headers.get("last-modified")!;
+    expect(etag).toMatch(/^"[\w-]+"$/);
+    expect(lastModified).toBeTruthy();
+
+    // Same document, same validator
+    const again = await fetch(`${REGISTRY_URL}/${TEST_PACKAGE}`);
+    await again.arrayBuffer();
+    expect(again.headers.get("etag")).toBe(etag);
+
+    const byEtag = await fetch(`${REGISTRY_URL}/${TEST_PACKAGE}`, {
+      headers: { "if-none-match": etag },
+    });
+    expect(byEtag.status).toBe(304);
+    expect(byEtag.headers.get("etag")).toBe(etag);
+
+    const byDate = await fetch(`${REGISTRY_URL}/${TEST_PACKAGE}`, {
+      headers: { "if-modified-since": lastModified },
+    });
+    expect(byDate.status).toBe(304);
+
+    // The abbreviated variant has its own validator
+    const corgi = await fetch(`${REGISTRY_URL}/${TEST_PACKAGE}`, {
+      headers: { accept: CORGI_ACCEPT, "if-none-match": etag },
+    });
+    expect(corgi.status).toBe(200);
+    await corgi.arrayBuffer();
+
+    await Bun.sleep(500);
+    const statsAfter = (await fetch(`${API_URL}/stats`).then((r) =>
+      r.json(),
+    )) as any;
+    expect(
+      statsAfter.requests.notModified - statsBefore.requests.notModified,
+    ).toBe(2);
+  });
+
+  test("serves pre-compressed siblings by Accept-Encoding", async () => {
+    for (const file of [CACHE_FILE, CORGI_FILE]) {
+      const deadline = Date.now() + 10_000;
+      while (!fs.existsSync(`${file}.gz`) && Date.now() < deadline) {
+        await Bun.sleep(100);
+      }
+      expect(fs.existsSync(`${file}.br`)).toBe(true);
+      expect(fs.existsSync(`${file}.gz`)).toBe(true);
+    }
+
+    const identity = await fetch(`${REGISTRY_URL}/${TEST_PACKAGE}`, {
+      headers: { "accept-encoding": "identity" },
+    }).then((r) => r.text());
+
+    for (const [encoding, inflate] of [
+      ["br", zlib.brotliDecompressSync],
+      ["gzip", zlib.gunzipSync],
+    ] as const) {
+      const res = await fetch(`${REGISTRY_URL}/${TEST_PACKAGE}`, {
+        headers: { "accept-encoding": encoding },
+        decompress: false,
+      } as RequestInit);
+      expect(res.status).toBe(200);
+      expect(res.headers.get("content-encoding")).toBe(encoding);
+      expect(res.headers.get("vary")).toContain("accept-encoding");
+      const wire = Buffer.from(await res.arrayBuffer());
+      expect(Number(res.headers.get("content-length"))).toBe(wire.length);
+      expect(wire.length).toBeLessThan(Buffer.byteLength(identity));
+      expect(inflate(wire).toString("utf8")).toBe(identity);
+    }
+  });
+
+  test("serves version and dist-tag routes from the packument", async () => {
+    const doc = JSON.parse(fs.readFileSync(CACHE_FILE, "utf8"));
+    const latest = doc["dist-tags"].latest;
+
+    const byTag = await fetch(`${REGISTRY_URL}/${TEST_PACKAGE}/latest`);
+    expect(byTag.status).toBe(200);
+    expect(byTag.headers.get("x-cache")).toBe("HIT");
+    const entry = (await byTag.json()) as any;
+    expect(entry.version).toBe(latest);
+    expect(entry).not.toHaveProperty("readme");
+    expect(entry.dist.tarball.startsWith(`${REGISTRY_URL}/`)).toBe(true);
+
+    const exact = await fetch(`${REGISTRY_URL}/${TEST_PACKAGE}/4.19.2`);
+    expect(((await exact.json()) as any).version).toBe("4.19.2");
+
+    const range = await fetch(
+      `${REGISTRY_URL}/${TEST_PACKAGE}/${encodeURIComponent("~4.18.0")}`,
+    );
+    expect(((await range.json()) as any).version).toMatch(/^4\.18\./);
+
+    const missing = await fetch(`${REGISTRY_URL}/${TEST_PACKAGE}/99.0.0`);
+    expect(missing.status).toBe(404);
+    await missing.arrayBuffer();
+
+    // Nothing is cached per version
+    expect(fs.existsSync(path.join(CACHE_DIR, TEST_PACKAGE))).toBe(false);
+  });
+
+  test("lets npm --before resolve against the stripped publish times", () => {
+    const doc = JSON.parse(fs.readFileSync(CACHE_FILE, "utf8"));
+    const before = doc.time["4.18.0"] as string;
+    const expected = Object.keys(doc.versions)
+      .filter(
+        (v) =>
+          v.startsWith("4.") &&
+          !v.includes("-") &&
+          Date.parse(doc.time[v]) <= Date.parse(before),
+      )
+      .sort(Bun.semver.order)
+      .at(-1);
+
+    const npmCache = fs.mkdtempSync(path.join(os.tmpdir(), "upm-npm-"));
+    try {
+      const npm = Bun.spawnSync(
+        [
+          "npm",
+          "pack",
+          `${TEST_PACKAGE}@4`,
+          "--dry-run",
+          "--json",
+          `--before=${before}`,
+          `--registry=${REGISTRY_URL}/`,
+          `--cache=${npmCache}`,
+        ],
+        { cwd: npmCache, timeout: 60_000 },
+      );
+      expect(npm.exitCode).toBe(0);
+      const [packed] = JSON.parse(npm.stdout.toString());
+      expect(packed.version).toBe(expected);
+    } finally {
+      fs.rmSync(npmCache, { recursive: true, force: true });
+    }
+  }, 90_000);
+
+  test("treats a corrupt cache entry as a miss", async () => {
+    const intact = fs.readFileSync(CACHE_FILE, "utf8");
+    // What a write cut short by a crash used to leave behind
+    fs.writeFileSync(CACHE_FILE, intact.slice(0, intact.length / 2));
+
+    const res = await fetch(`${REGISTRY_URL}/${TEST_PACKAGE}`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("x-cache")).toBe("MISS");
+    expect(((await res.json()) as any).name).toBe(TEST_PACKAGE);
+
+    // The refetched document replaces the broken one
+    const deadline = Date.now() + 10_000;
+    let rewritten: any = null;
+    while (!rewritten && Date.now() < deadline) {
+      try {
+        rewritten = JSON.parse(fs.readFileSync(CACHE_FILE, "utf8"));
+      } catch {
+        await Bun.sleep(100);
+      }
+    }
+    expect(rewritten?.name).toBe(TEST_PACKAGE);
+  });
+
+  test("coalesces concurrent misses into one upstream fetch", async () => {
+    const pkg = "left-pad";
+    const files = [
+      path.join(CACHE_DIR, `${pkg}.json`),
+      path.join(CACHE_DIR, "corgi", `${pkg}.json`),
+    ].flatMap((f) => [f, `${f}.br`, `${f}.gz`]);
+    for (const file of files) {
+      try {
+        fs.unlinkSync(file);
+      } catch {}
+    }
+
+    const db = new Database(path.join(DATA_DIR, "stats.db"));
+    const since = (
+      db.query("SELECT COALESCE(MAX(id), 0) as id FROM events").get() as {
+        id: number;
+      }
+    ).id;
+
+    const responses = await Promise.all(
+      Array.from({ length: 8 }, (_, i) =>
+        fetch(`${REGISTRY_URL}/${pkg}`, {
+          headers: i % 2 ? { accept: CORGI_ACCEPT } : {},
+        }),
+      ),
+    );
+    const bodies = await Promise.all(responses.map((r) => r.json()));
+    for (const [i, res] of responses.entries()) {
+      expect(res.status).toBe(200);
+      expect((bodies[i] as any).name).toBe(pkg);
+    }
+
+    const cacheFile = files[0];
+    const deadline = Date.now() + 10_000;
+    while (!fs.existsSync(cacheFile) && Date.now() < deadline) {
+      await Bun.sleep(100);
+    }
+    await Bun.sleep(500);
+
+    // Every client got a miss, but the document was fetched and stripped once
+    const count = (kind: string) =>
+      (
+        db
+          .query(
+            "SELECT COUNT(*) as n FROM events WHERE id > ? AND kind = ? AND package = ?",
+          )
+          .get(since, kind, pkg) as { n: number }
+      ).n;
+    expect(count("miss")).toBe(8);
+    expect(count("strip")).toBe(1);
+    db.close();
+
+    for (const file of files) {
+      try {
+        fs.unlinkSync(file);
+      } catch {}
+    }
+  }, 30_000);
+
+  test("publishes, serves and unpublishes a private package", async () => {
+    const pkg = "@upm-e2e/private";
+    const pkgUrl = `${REGISTRY_URL}/${pkg.replace("/", "%2f")}`;
+    const auth = { authorization: `Bearer ${await login()}` };
+    const tarball = zlib.gzipSync(Buffer.from("not really a tar"));
+    const integrity =
+      "sha512-" + crypto.createHash("sha512").update(tarball).digest("base64");
+    const publish = (version: string, headers: Record<string, string> = auth) =>
+      fetch(pkgUrl, {
+        method: "PUT",
+        headers: { ...headers, "content-type": "application/json" },
+        body: JSON.stringify({
+          _id: pkg,
+          name: pkg,
+          "dist-tags": { latest: version },
+          versions: {
+            [version]: { name: pkg, version, dist: { integrity } },
+          },
+          _attachments: {
+            [`${pkg}-${version}.tgz`]: {
+              content_type: "application/octet-stream",
+              data: tarball.toString("base64"),
+              length: tarball.length,
+            },
+          },
+        }),
+      });
+
+    try {
+      expect((await publish("1.0.0")).status).toBe(201);
+      // Versions are immutable
+      expect((await publish("1.0.0")).status).toBe(403);
+
+      const meta = (await fetch(pkgUrl).then((r) => r.json())) as any;
+      expect(meta["dist-tags"].latest).toBe("1.0.0");
+      const tarballUrl = meta.versions["1.0.0"].dist.tarball;
+      expect(tarballUrl).toBe(`${REGISTRY_URL}/${pkg}/-/private-1.0.0.tgz`);
+
+      const tgz = await fetch(tarballUrl);
+      expect(tgz.status).toBe(200);
+      expect(Buffer.from(await tgz.arrayBuffer()).equals(tarball)).toBe(true);
+
+      const tag = await fetch(
+        `${REGISTRY_URL}/-/package/${pkg.replace("/", "%2f")}/dist-tags/beta`,
+        { method: "PUT", headers: auth, body: JSON.stringify("1.0.0") },
+      );
+      expect(tag.status).toBe(200);
+      await tag.arrayBuffer();
+
+      // Only a maintainer may write to it
+      const other = { authorization: `Bearer ${await login(OTHER_USER)}` };
+      expect((await publish("1.1.0", other)).status).toBe(403);
+      const otherTag = await fetch(
+        `${REGISTRY_URL}/-/package/${pkg.replace("/", "%2f")}/dist-tags/beta`,
+        { method: "DELETE", headers: other },
+      );
+      expect(otherTag.status).toBe(403);
+      await otherTag.arrayBuffer();
+      const { _rev } = (await fetch(`${pkgUrl}?write=true`).then((r) =>
+        r.json(),
+      )) as any;
+      const otherUnpublish = await fetch(`${pkgUrl}/-rev/${_rev}`, {
+        method: "DELETE",
+        headers: other,
+      });
+      expect(otherUnpublish.status).toBe(403);
+      await otherUnpublish.arrayBuffer();
+
+      // Deprecate: npm sends the ?write=true document back with edits
+      const doc = (await fetch(`${pkgUrl}?write=true`).then((r) =>
+        r.json(),
+      )) as any;
+      expect(doc["dist-tags"].beta).toBe("1.0.0");
+      doc.versions["1.0.0"].deprecated = "use something else";
+      const deprecate = await fetch(pkgUrl, {
+        method: "PUT",
+        headers: auth,
+        body: JSON.stringify(doc),
+      });
+      expect(deprecate.status).toBe(200);
+      await deprecate.arrayBuffer();
+      const after = (await fetch(pkgUrl).then((r) => r.json())) as any;
+      expect(after.versions["1.0.0"].deprecated).toBe("use something else");
+    } finally {
+      const { _rev } = (await fetch(`${pkgUrl}?write=true`).then((r) =>
+        r.json(),
+      )) as any;
+      const unpublish = await fetch(`${pkgUrl}/-rev/${_rev}`, {
+        method: "DELETE",
+        headers: auth,
+      });
+      expect(unpublish.status).toBe(200);
+      await unpublish.arrayBuffer();
+    }
+
+    // Unpublished along with its tarball
+    const gone = await fetch(`${REGISTRY_URL}/${pkg}/-/private-1.0.0.tgz`);
+    expect(gone.status).toBe(404);
+    await gone.arrayBuffer();
+  }, 30_000);
+
+  test("refuses to publish over a package upstream has", async () => {
+    const auth = { authorization: `Bearer ${await login()}` };
+    const version = "99.0.0";
+    const res = await fetch(`${REGISTRY_URL}/left-pad`, {
+      method: "PUT",
+      headers: { ...auth, "content-type": "application/json" },
+      body: JSON.stringify({
+        name: "left-pad",
+        versions: { [version]: { name: "left-pad", version } },
+        _attachments: {
+          [`left-pad-${version}.tgz`]: { data: "" },
+        },
+      }),
+    });
+    expect(res.status).toBe(403);
+    expect(((await res.json()) as any).error).toContain("exists upstream");
+    expect(
+      fs.existsSync(path.join(DATA_DIR, "packages", "left-pad")),
+    ).toBe(false);
+  });
+
+  test("requires a publish-scoped token to publish", async () => {
+    const token = await login();
+    const whoami = await fetch(`${REGISTRY_URL}/-/whoami`, {
+      headers: { authorization: `Bearer ${token}` },
+    });
+    expect(((await whoami.json()) as any).username).toBe(TEST_USER.name);
+
+    const created = await fetch(`${REGISTRY_URL}/-/npm/v1/tokens`, {
+      method: "POST",
+      headers: { authorization: `Bearer ${token}` },
+      body: JSON.stringify({ password: TEST_USER.password, readonly: true }),
+    });
+    expect(created.status).toBe(201);
+    const readOnly = ((await created.json()) as any).token as string;
+
+    const put = (headers: Record<string, string>) =>
+      fetch(`${REGISTRY_URL}/@upm-e2e%2fdenied`, {
+        method: "PUT",
+        headers,
+        body: JSON.stringify({ name: "@upm-e2e/denied" }),
+      });
+    const anonymous = await put({});
+    expect(anonymous.status).toBe(401);
+    await anonymous.arrayBuffer();
+    const denied = await put({ authorization: `Bearer ${readOnly}` });
+    expect(denied.status).toBe(403);
+    await denied.arrayBuffer();
+
+    // Reads stay open under the default rules
+    const read = await fetch(`${REGISTRY_URL}/${TEST_PACKAGE}`, {
+      headers: { authorization: `Bearer ${readOnly}` },
+    });
+    expect(read.status).toBe(200);
+    await read.arrayBuffer();
+  });
+
+  test("reports upstream health", async () => {
+    const res = await fetch(`${REGISTRY_URL}/-/health`);
+    expect(res.status).toBe(200);
+    const health = (await res.json()) as any;
+    expect(health.status).toBe("ok");
+    expect(health.mode).toBe("online");
+    expect(health.upstreams[0].healthy).toBe(true);
+    expect(health.upstreams[0].lastSuccess).toBeTruthy();
+  });
+
+  test("exposes Prometheus metrics from the registry and the API", async () => {
+    const res = await fetch(`${REGISTRY_URL}/-/metrics`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/plain");
+    const text = await res.text();
+    expect(text).toMatch(
+      /upm_cache_requests_total\{type="packument",result="hit"\} [1-9]/,
+    );
+    expect(text).toMatch(/upm_upstream_request_duration_seconds_count\{/);
+    expect(text).toMatch(/upm_strip_ratio_count [1-9]/);
+
+    const openMetrics = await fetch(`${REGISTRY_URL}/-/metrics`, {
+      headers: { accept: "application/openmetrics-text; version=1.0.0" },
+    });
+    expect(openMetrics.headers.get("content-type")).toContain(
+      "application/openmetrics-text",
+    );
+    expect((await openMetrics.text()).endsWith("# EOF\n")).toBe(true);
+
+    await fetch(`${API_URL}/stats`).then((r) => r.arrayBuffer());
+    const api = await fetch(`${API_URL}/metrics`).then((r) => r.text());
+    expect(api).toMatch(/upm_api_stats_query_duration_seconds_count [1-9]/);
+    expect(api).not.toContain("upm_cache_requests_total");
+  });
+
+  test("reports stats history per bucket", async () => {
+    const res = await fetch(`${API_URL}/stats?bucket=hour`);
+    expect(res.status).toBe(200);
+    const history = (await res.json()) as any;
+    expect(history.bucket).toBe("hour");
+    // The last 24 hours, the current one included
+    expect(history.buckets.length).toBe(25);
+
+    // The suite's own requests, in whichever hours they fell
+    const since = (await fetch(
+      `${API_URL}/stats?bucket=hour&from=${new Date(SUITE_START).toISOString()}`,
+    ).then((r) => r.json())) as any;
+    const sum = (key: string) =>
+      since.buckets.reduce((total: number, b: any) => total + b[key], 0);
+    expect(sum("hits")).toBeGreaterThan(0);
+    expect(since.buckets.some((b: any) => b.hitRate > 0)).toBe(true);
+    expect(sum("bandwidthSaved")).toBeGreaterThan(0);
+    const timed = since.buckets.filter((b: any) => b.latency);
+    expect(timed.length).toBeGreaterThan(0);
+    for (const { latency } of timed) {
+      expect(latency.p50).toBeLessThanOrEqual(latency.p95);
+    }
+
+    const daily = (await fetch(
+      `${API_URL}/stats?bucket=day&from=2026-01-01&to=2026-01-07`,
+    ).then((r) => r.json())) as any;
+    expect(daily.buckets.map((b: any) => b.start)).toEqual(
+      [1, 2, 3, 4, 5, 6, 7].map((d) => `2026-01-0${d}T00:00:00.000Z`),
+    );
+
+    const bad = await fetch(`${API_URL}/stats?bucket=minute`);
+    expect(bad.status).toBe(400);
+
+    const page = await fetch(`${API_URL}/`).then((r) => r.text());
+    expect(page).toContain("Last 24 Hours");
+    expect(page).toContain("<svg");
+  });
+
+  test("reports sync status and refreshes a package on request", async () => {
+    const status = await fetch(`${REGISTRY_URL}/-/sync/status`);
+    expect(status.status).toBe(200);
+    const body = (await status.json()) as any;
+    expect(body.running).toBe(false);
+    expect(typeof body.queue.pending).toBe("number");
+    expect(typeof body.throughput.lastHour).toBe("number");
+
+    const anonymous = await fetch(
+      `${REGISTRY_URL}/-/sync/refresh/${TEST_PACKAGE}`,
+      { method: "POST" },
+    );
+    expect(anonymous.status).toBe(401);
+    await anonymous.arrayBuffer();
+
+    const token = await login();
+    const refreshed = await fetch(
+      `${REGISTRY_URL}/-/sync/refresh/${TEST_PACKAGE}`,
+      { method: "POST", headers: { authorization: `Bearer ${token}` } },
+    );
+    expect(refreshed.status).toBe(200);
+    expect(((await refreshed.json()) as any).result).toBe("updated");
+    expect(fs.existsSync(CACHE_FILE)).toBe(true);
+
+    const uncached = await fetch(
+      `${REGISTRY_URL}/-/sync/refresh/upm-never-cached`,
+      { method: "POST", headers: { authorization: `Bearer ${token}` } },
+    );
+    expect(uncached.status).toBe(404);
+    await uncached.arrayBuffer();
+  });
+
+  test("warms the cache from an uploaded lockfile", async () => {
+    const lockfile = JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        "": { name: "app" },
+        "node_modules/ms": {
+          version: "2.1.3",
+          resolved: "https://registry.npmjs.org/ms/-/ms-2.1.3.tgz",
+          integrity:
+            "sha512-6FlzubTLZG3J2a/NVCAleEhjzq5oxgHyaCU9yYXvcLsvoVaHJq/s5xXI6/XXP6tz7R9xAOtHnSO/tXtF3WRTlA==",
+        },
+      },
+    });
+    // Stored under the registry's digest, which the lockfile's matches
+    const hex = Buffer.from(
+      "6FlzubTLZG3J2a/NVCAleEhjzq5oxgHyaCU9yYXvcLsvoVaHJq/s5xXI6/XXP6tz7R9xAOtHnSO/tXtF3WRTlA==",
+      "base64",
+    ).toString("hex");
+    const stored = path.join(CACHE_DIR, "tarballs", "sha512", hex.slice(0, 2), hex);
+    fs.rmSync(stored, { force: true });
+    const token = await login();
+    const started = await fetch(`${REGISTRY_URL}/-/prefetch`, {
+      method: "POST",
+      headers: { authorization: `Bearer ${token}` },
+      body: lockfile,
+    });
+    expect(started.status).toBe(202);
+    const { id, format, total } = (await started.json()) as any;
+    expect(format).toBe("package-lock");
+    expect(total).toBe(1);
+
+    let job: any;
+    for (let i = 0; i < 50; i++) {
+      const res = await fetch(`${REGISTRY_URL}/-/prefetch/${id}`, {
+        headers: { authorization: `Bearer ${token}` },
+      });
+      job = await res.json();
+      if (job.state === "done") break;
+      await Bun.sleep(200);
+    }
+    expect(job.state).toBe("done");
+    expect(job.done).toBe(1);
+    expect(job.errors).toEqual([]);
+    expect(job.tarballs.fetched).toBe(1);
+    expect(fs.existsSync(stored)).toBe(true);
+    expect(fs.existsSync(path.join(CACHE_DIR, "ms.json"))).toBe(true);
+  });
+
+  test("offline mode serves the cache and never goes upstream", async () => {
+    const OFFLINE_PORT = REGISTRY_PORT + 1;
+    const OFFLINE_URL = `http://localhost:${OFFLINE_PORT}`;
+    const offlineProc = Bun.spawn(
+      [process.execPath, path.join(SRC_DIR, "server.ts")],
+      {
+        env: {
+          ...SERVER_ENV,
+          PORT: String(OFFLINE_PORT),
+          PUBLIC_URL: REGISTRY_URL,
+          OFFLINE: "1",
+        },
+        stdout: "pipe",
+        stderr: "inherit",
+      },
+    );
+    try {
+      await waitForOutput(
+        offlineProc,
+        `listening on http://localhost:${OFFLINE_PORT}`,
+      );
+
+      const health = (await fetch(`${OFFLINE_URL}/-/health`).then((r) =>
+        r.json(),
+      )) as any;
+      expect(health.mode).toBe("offline");
+
+      // Cached: served as usual
+      const hit = await fetch(`${OFFLINE_URL}/${TEST_PACKAGE}`);
+      expect(hit.status).toBe(200);
+      expect(hit.headers.get("x-cache")).toBe("HIT");
+      await hit.arrayBuffer();
+
+      // Only the full document cached: the abbreviated one is derived, flagged stale
+      fs.renameSync(CORGI_FILE, `${CORGI_FILE}.bak`);
+      try {
+        const stale = await fetch(`${OFFLINE_URL}/${TEST_PACKAGE}`, {
+          headers: { accept: CORGI_ACCEPT },
+        });
+        expect(stale.status).toBe(200);
+        expect(stale.headers.get("x-cache")).toBe("STALE");
+        expect(stale.headers.get("warning")).toContain("111");
+        const corgi = (await stale.json()) as any;
+        expect(corgi.name).toBe(TEST_PACKAGE);
+      } finally {
+        fs.renameSync(`${CORGI_FILE}.bak`, CORGI_FILE);
+      }
+
+      // Nothing cached: fail fast instead of reaching out
+      const miss = await fetch(
+        `${OFFLINE_URL}/this-package-is-not-cached-anywhere`,
+      );
+      expect(miss.status).toBe(504);
+      await miss.arrayBuffer();
+
+      const passthrough = await fetch(
+        `${OFFLINE_URL}/-/v1/search?text=express`,
+      );
+      expect(passthrough.status).toBe(503);
+      await passthrough.arrayBuffer();
+
+      // Where the changes feed stands is unknown, not fetched
+      const status = (await fetch(`${OFFLINE_URL}/-/sync/status`).then((r) =>
+        r.json(),
+      )) as any;
+      expect(status.upstreamSeq).toBeNull();
+      expect(status.lag).toBeNull();
+    } finally {
+      offlineProc.kill();
+      await offlineProc.exited;
+    }
+  }, 30_000);
+
+  test("serves an expired hit, then revalidates it in the background", async () => {
+    const TTL_PORT = REGISTRY_PORT + 2;
+    const TTL_URL = `http://localhost:${TTL_PORT}`;
+    const pkg = "upm-e2e-ttl";
+    const cacheFile = path.join(CACHE_DIR, `${pkg}.json`);
+    const corgiFile = path.join(CACHE_DIR, "corgi", `${pkg}.json`);
+    for (const file of [cacheFile, corgiFile]) {
+      for (const ext of ["", ".br", ".gz"]) {
+        fs.rmSync(file + ext, { force: true });
+      }
+    }
+
+    // An upstream that honours validators, to tell a 304 from a refetch
+    let version = "1.0.0";
+    const conditional: (string | null)[] = [];
+    const upstream = Bun.serve({
+      port: 0,
+      fetch(req) {
+        const etag = `"${version}"`;
+        if (req.headers.has("if-modified-since")) {
+          conditional.push(req.headers.get("if-none-match"));
+          if (req.headers.get("if-none-match") === etag) {
+            return new Response(null, { status: 304 });
+          }
+        }
+        return Response.json(
+          {
+            name: pkg,
+            "dist-tags": { latest: version },
+            versions: { [version]: { name: pkg, version, dist: {} } },
+          },
+          { headers: { etag } },
+        );
+      },
+    });
+    const upstreamsFile = path.join(
+      os.tmpdir(),
+      `upm-e2e-upstreams-${process.pid}.json`,
+    );
+    fs.writeFileSync(
+      upstreamsFile,
+      JSON.stringify({ upstreams: [{ name: "stub", url: upstream.url.href }] }),
+    );
+    const ttlProc = Bun.spawn(
+      [process.execPath, path.join(SRC_DIR, "server.ts")],
+      {
+        env: {
+          ...SERVER_ENV,
+          PORT: String(TTL_PORT),
+          PUBLIC_URL: TTL_URL,
+          UPSTREAMS_FILE: upstreamsFile,
+          CACHE_TTL: "1s",
+        },
+        stdout: "pipe",
+        stderr: "inherit",
+      },
+    );
+    const latest = async () => {
+      const res = await fetch(`${TTL_URL}/${pkg}`);
+      expect(res.status).toBe(200);
+      return [
+        res.headers.get("x-cache"),
+        ((await res.json()) as any)["dist-tags"].latest,
+      ];
+    };
+    const waitFor = async (check: () => boolean) => {
+      const deadline = Date.now() + 5000;
+      while (!check() && Date.now() < deadline) await Bun.sleep(50);
+      expect(check()).toBe(true);
+    };
+
+    try {
+      await waitForOutput(ttlProc, `listening on http://localhost:${TTL_PORT}`);
+      expect(await latest()).toEqual(["MISS", "1.0.0"]);
+      await waitFor(() => fs.existsSync(cacheFile));
+      const cachedAt = fs.statSync(cacheFile).mtimeMs;
+
+      // Expired and unchanged upstream: served, then only re-dated
+      await Bun.sleep(1100);
+      expect(await latest()).toEqual(["HIT", "1.0.0"]);
+      await waitFor(() => fs.statSync(cacheFile).mtimeMs > cachedAt);
+      expect(conditional).toEqual(['"1.0.0"']);
+      const touchedAt = fs.statSync(cacheFile).mtimeMs;
+
+      // Expired and changed upstream: the old copy is served while the new
+      // one is fetched
+      version = "1.1.0";
+      await Bun.sleep(1100);
+      expect(await latest()).toEqual(["HIT", "1.0.0"]);
+      await waitFor(() => fs.statSync(cacheFile).mtimeMs > touchedAt);
+      expect(conditional).toEqual(['"1.0.0"', '"1.0.0"']);
+      await waitFor(() => fs.readFileSync(cacheFile, "utf8").includes("1.1.0"));
+      expect(await latest()).toEqual(["HIT", "1.1.0"]);
+    } finally {
+      ttlProc.kill();
+      await ttlProc.exited;
+      upstream.stop(true);
+      fs.rmSync(upstreamsFile, { force: true });
+    }
+  }, 30_000);
 });
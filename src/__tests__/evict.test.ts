@@ -0,0 +1,84 @@
+import { describe, test, expect } from "bun:test";
+import { TEST_ROOT, clearCache } from "./sandbox.ts";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+// Read once at import: 10 000 bytes evicts down to 9 000
+process.env.CACHE_MAX_BYTES = "10000";
+process.env.CACHE_PINNED = "pinned-pkg";
+const { parseBytes, evictOnce } = await import("../evict.ts");
+const { CACHE_DIR } = await import("../cache.ts");
+const { digestFromDist, tarballPath } = await import("../tarballs.ts");
+const { recordHit } = await import("../stats.ts");
+
+describe("parseBytes", () => {
+  test("reads binary and decimal units", () => {
+    expect(parseBytes("8Gi")).toBe(8 * 1024 ** 3);
+    expect(parseBytes("500M")).toBe(500_000_000);
+    expect(parseBytes("1.5k")).toBe(1500);
+    expect(parseBytes("2KiB")).toBe(2048);
+    expect(parseBytes("1073741824")).toBe(1073741824);
+  });
+
+  test("means no limit when unset, and rejects anything else", () => {
+    expect(parseBytes(undefined)).toBe(0);
+    expect(parseBytes("")).toBe(0);
+    expect(() => parseBytes("lots")).toThrow();
+    expect(() => parseBytes("8 GB free")).toThrow();
+  });
+});
+
+// A 1 000-byte packument, its mtime `age` seconds in the past
+function writeDoc(pkg: string, age: number, versions = {}): void {
+  const file = path.join(CACHE_DIR, `${pkg}.json`);
+  const doc = { name: pkg, versions, pad: "" };
+  doc.pad = "x".repeat(1000 - JSON.stringify(doc).length);
+  fs.writeFileSync(file, JSON.stringify(doc));
+  const mtime = new Date(Date.now() - age * 1000);
+  fs.utimesSync(file, mtime, mtime);
+}
+
+function writeTarball(data: Buffer): string {
+  const integrity = `sha512-${crypto.createHash("sha512").update(data).digest("base64")}`;
+  const file = tarballPath(digestFromDist({ integrity })!);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, data);
+  return integrity;
+}
+
+describe("evictOnce", () => {
+  test("removes orphans, then the least recently used unpinned packages", async () => {
+    expect(CACHE_DIR.startsWith(TEST_ROOT)).toBe(true);
+    clearCache();
+
+    const orphan = tarballPath(
+      digestFromDist({ integrity: writeTarball(Buffer.alloc(500, 1)) })!,
+    );
+    const integrity = writeTarball(Buffer.alloc(500, 2));
+    const linked = tarballPath(digestFromDist({ integrity })!);
+
+    // 11 packuments and two tarballs: 12 000 bytes
+    writeDoc("pinned-pkg", 200);
+    for (let i = 0; i < 10; i++) {
+      const versions =
+        i === 1 ? { "1.0.0": { dist: { integrity } } } : undefined;
+      writeDoc(`pkg-${i}`, 100 - i, versions);
+    }
+    // Served just now, so more recent than its mtime says
+    recordHit("pkg-0", 1000, 1000);
+
+    await evictOnce();
+
+    const left = (pkg: string) =>
+      fs.existsSync(path.join(CACHE_DIR, `${pkg}.json`));
+    expect(fs.existsSync(orphan)).toBe(false);
+    expect(left("pinned-pkg")).toBe(true);
+    expect(left("pkg-0")).toBe(true);
+    // Goes on past the budget (10 000) down to the low-water mark (9 000)
+    expect(left("pkg-1")).toBe(false);
+    expect(fs.existsSync(linked)).toBe(false);
+    expect(left("pkg-2")).toBe(false);
+    for (let i = 3; i < 10; i++) expect(left(`pkg-${i}`)).toBe(true);
+  });
+});
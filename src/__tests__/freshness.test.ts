@@ -0,0 +1,22 @@
+import { test, expect } from "bun:test";
+import "./sandbox.ts";
+import { parseDuration, parseTtlRules } from "../freshness.ts";
+
+test("parses durations, seconds by default", () => {
+  expect(parseDuration("30s")).toBe(30_000);
+  expect(parseDuration("10m")).toBe(600_000);
+  expect(parseDuration("1.5h")).toBe(5_400_000);
+  expect(parseDuration("1d")).toBe(86_400_000);
+  expect(parseDuration("300")).toBe(300_000);
+  expect(parseDuration(undefined)).toBe(0);
+  expect(() => parseDuration("soon")).toThrow();
+});
+
+test("parses per-package TTL rules in order", () => {
+  expect(parseTtlRules("@ourco=30s, @types/*=1d")).toEqual([
+    { pattern: "@ourco", ttlMs: 30_000 },
+    { pattern: "@types/*", ttlMs: 86_400_000 },
+  ]);
+  expect(parseTtlRules("")).toEqual([]);
+  expect(() => parseTtlRules("@ourco")).toThrow();
+});
@@ -0,0 +1,130 @@
+import { test, expect } from "bun:test";
+import { parseLockfile } from "../lockfile.ts";
+
+const names = (text: string) =>
+  parseLockfile(text).packages.map((p) => `${p.name}@${p.version}`);
+
+test("reads package-lock.json v3 and v1", () => {
+  const v3 = JSON.stringify({
+    lockfileVersion: 3,
+    packages: {
+      "": { name: "app", version: "1.0.0" },
+      "node_modules/express": {
+        version: "4.19.2",
+        resolved: "https://registry.npmjs.org/express/-/express-4.19.2.tgz",
+        integrity: "sha512-abc",
+      },
+      "node_modules/express/node_modules/ms": { version: "2.0.0" },
+      "node_modules/old": { name: "@ourco/new", version: "1.0.0" },
+      "node_modules/local": { resolved: "packages/local", link: true },
+      "node_modules/git-dep": {
+        version: "1.0.0",
+        resolved: "git+ssh://git@github.com/user/git-dep.git#abc",
+      },
+    },
+  });
+  const lock = parseLockfile(v3);
+  expect(lock.format).toBe("package-lock");
+  expect(names(v3)).toEqual(["express@4.19.2", "ms@2.0.0", "@ourco/new@1.0.0"]);
+  expect(lock.packages[0].integrity).toBe("sha512-abc");
+
+  const v1 = JSON.stringify({
+    lockfileVersion: 1,
+    dependencies: {
+      debug: { version: "2.6.9", dependencies: { ms: { version: "2.0.0" } } },
+    },
+  });
+  expect(names(v1)).toEqual(["debug@2.6.9", "ms@2.0.0"]);
+});
+
+test("reads pnpm-lock.yaml v5, v6 and v9", () => {
+  const v5 = `lockfileVersion: 5.4
+packages:
+  /ms/2.1.3:
+    resolution: {integrity: sha512-abc}
+  /@babel/core/7.24.0_supports-color@8.0.0:
+    resolution: {integrity: sha512-def}
+`;
+  expect(parseLockfile(v5).format).toBe("pnpm-lock");
+  expect(names(v5)).toEqual(["ms@2.1.3", "@babel/core@7.24.0"]);
+  expect(parseLockfile(v5).packages[0].integrity).toBe("sha512-abc");
+
+  const v6 = `lockfileVersion: '6.0'
+packages:
+  /@babel/core@7.24.0(supports-color@8.0.0):
+    resolution: {integrity: sha512-def}
+`;
+  expect(names(v6)).toEqual(["@babel/core@7.24.0"]);
+
+  const v9 = `lockfileVersion: '9.0'
+packages:
+  '@babel/core@7.24.0':
+    resolution: {integrity: sha512-def}
+  ms@2.1.3:
+    resolution: {integrity: sha512-abc}
+  tarball@https://example.com/tarball.tgz:
+    resolution: {tarball: https://example.com/tarball.tgz}
+`;
+  expect(names(v9)).toEqual(["@babel/core@7.24.0", "ms@2.1.3"]);
+});
+
+test("reads yarn.lock, classic and berry", () => {
+  const classic = `# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+# yarn lockfile v1
+
+
+"@babel/core@^7.0.0", "@babel/core@^7.1.0":
+  version "7.24.0"
+  resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.24.0.tgz#abc"
+  integrity sha512-def
+  dependencies:
+    ms "^2.1.0"
+
+old@npm:ms@^2:
+  version "2.1.3"
+  resolved "https://registry.yarnpkg.com/ms/-/ms-2.1.3.tgz#abc"
+
+git-dep@user/git-dep:
+  version "1.0.0"
+  resolved "https://codeload.github.com/user/git-dep/tar.gz/abc"
+`;
+  const lock = parseLockfile(classic);
+  expect(lock.format).toBe("yarn");
+  expect(names(classic)).toEqual(["@babel/core@7.24.0", "ms@2.1.3"]);
+  expect(lock.packages[0].integrity).toBe("sha512-def");
+
+  const berry = `__metadata:
+  version: 8
+  cacheKey: 10c0
+
+"@babel/core@npm:^7.0.0, @babel/core@npm:^7.1.0":
+  version: 7.24.0
+  resolution: "@babel/core@npm:7.24.0"
+
+"app@workspace:.":
+  version: 0.0.0-use.local
+  resolution: "app@workspace:."
+`;
+  expect(parseLockfile(berry).format).toBe("yarn");
+  expect(names(berry)).toEqual(["@babel/core@7.24.0"]);
+});
+
+test("reads bun.lock", () => {
+  const lock = `{
+  "lockfileVersion": 1,
+  "workspaces": { "": { "name": "app" } },
+  "packages": {
+    "ms": ["ms@2.1.3", "", {}, "sha512-abc"],
+    "@babel/core": ["@babel/core@7.24.0", "", { "dependencies": {} }, "sha512-def"],
+    "local": ["local@workspace:packages/local"],
+  },
+}`;
+  expect(parseLockfile(lock).format).toBe("bun");
+  expect(names(lock)).toEqual(["ms@2.1.3", "@babel/core@7.24.0"]);
+  expect(parseLockfile(lock).packages[0].integrity).toBe("sha512-abc");
+});
+
+test("rejects anything else", () => {
+  expect(() => parseLockfile('{"name": "app"}')).toThrow();
+  expect(() => parseLockfile("just some text")).toThrow();
+});
@@ -0,0 +1,56 @@
+import { test, expect } from "bun:test";
+import {
+  createCounter,
+  createGauge,
+  createHistogram,
+  renderMetrics,
+} from "../metrics.ts";
+
+const requests = createCounter("test_requests_total", "Requests", true);
+const idle = createCounter("test_idle_total", "Never incremented");
+const depth = createGauge("test_depth", "Depth");
+const latency = createHistogram("test_latency_seconds", "Latency", [0.1, 1]);
+
+test("renders counters, gauges and histograms in the Prometheus format", () => {
+  requests.inc({ result: "hit" });
+  requests.inc({ result: "hit" });
+  requests.inc({ result: 'say "hi"\n' }, 3);
+  depth.set(7);
+  latency.observe(0.05);
+  latency.observe(0.5);
+  latency.observe(2);
+
+  const text = renderMetrics();
+  expect(text).toContain(
+    "# HELP test_requests_total Requests\n# TYPE test_requests_total counter\n",
+  );
+  expect(text).toContain('test_requests_total{result="hit"} 2\n');
+  expect(text).toContain('test_requests_total{result="say \\"hi\\"\\n"} 3\n');
+  // Only a counter without labels starts out at 0
+  expect(text).not.toContain("test_requests_total 0\n");
+  expect(text).toContain("test_idle_total 0\n");
+  expect(text).toContain("test_depth 7\n");
+  expect(text).toContain(
+    [
+      'test_latency_seconds_bucket{le="0.1"} 1',
+      'test_latency_seconds_bucket{le="1"} 2',
+      'test_latency_seconds_bucket{le="+Inf"} 3',
+      "test_latency_seconds_sum 2.55",
+      "test_latency_seconds_count 3",
+    ].join("\n"),
+  );
+  expect(text).toContain("process_resident_memory_bytes ");
+  expect(text).not.toContain("# EOF");
+});
+
+test("renders OpenMetrics on request", () => {
+  const text = renderMetrics(true);
+  expect(text).toContain("# TYPE test_requests counter\n");
+  expect(text).toContain('test_requests_total{result="hit"} 2\n');
+  expect(text.endsWith("# EOF\n")).toBe(true);
+});
+
+test("rejects a counter without _total and a name taken twice", () => {
+  expect(() => createCounter("test_requests", "Requests")).toThrow();
+  expect(() => createGauge("test_depth", "Depth")).toThrow();
+});
@@ -0,0 +1,102 @@
+import { describe, test, expect } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+  migratePackageFiles,
+  packageFile,
+  packageUrlPath,
+  parsePackagePath,
+  validatePackageName,
+} from "../names.ts";
+
+describe("validatePackageName", () => {
+  test("accepts registry names, including legacy capitals", () => {
+    for (const name of ["express", "@babel/core", "JSONStream", "a.b-c_d"]) {
+      expect(validatePackageName(name)).toBeNull();
+    }
+  });
+
+  test("rejects names that could escape the cache directory", () => {
+    for (const name of ["", "..", "../etc", "@scope/..", "a/b", "@/x", ".x"]) {
+      expect(validatePackageName(name)).not.toBeNull();
+    }
+  });
+});
+
+describe("parsePackagePath", () => {
+  test("maps both spellings of a scoped name to one package", () => {
+    expect(parsePackagePath("/@ourco%2fui")).toEqual({
+      name: "@ourco/ui",
+      rest: [],
+    });
+    expect(parsePackagePath("/@ourco%2Fui?write=true")).toEqual({
+      name: "@ourco/ui",
+      rest: [],
+    });
+    expect(parsePackagePath("/@ourco/ui/-/ui-1.0.0.tgz")).toEqual({
+      name: "@ourco/ui",
+      rest: ["-", "ui-1.0.0.tgz"],
+    });
+  });
+
+  test("keeps sub-routes separate from the name", () => {
+    expect(parsePackagePath("/express/4.19.2")).toEqual({
+      name: "express",
+      rest: ["4.19.2"],
+    });
+  });
+
+  test("returns null for registry endpoints and bad paths", () => {
+    expect(parsePackagePath("/")).toBeNull();
+    expect(parsePackagePath("/-/v1/search")).toBeNull();
+    expect(parsePackagePath("/%2e%2e%2fsecret")).toBeNull();
+    expect(parsePackagePath("/%E0%A4%A")).toBeNull();
+  });
+});
+
+test("packageUrlPath and packageFile", () => {
+  expect(packageUrlPath("@ourco/ui")).toBe("/@ourco%2fui");
+  expect(packageFile("/c", "@ourco/ui")).toBe("/c/@ourco/ui.json");
+  expect(packageFile("/c", "express")).toBe("/c/express.json");
+});
+
+describe("migratePackageFiles", () => {
+  test("moves encoded scoped files and drops sub-route leftovers", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "upm-names-"));
+    try {
+      const write = (rel: string, mtime: number) => {
+        const file = path.join(dir, rel);
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, rel);
+        fs.utimesSync(file, mtime, mtime);
+      };
+      write("express.json", 1);
+      write("@a%2fone.json", 2);
+      write("@a%2fone.json.br", 2);
+      write("@b%2ftwo.json", 1);
+      write("@b/two.json", 2);
+      write("express/4.19.2.json", 1);
+      write("express?write=true.json", 1);
+      write("tarballs/keep", 1);
+
+      migratePackageFiles(dir, ["tarballs"]);
+
+      const read = (rel: string) =>
+        fs.readFileSync(path.join(dir, rel), "utf8");
+      expect(read("express.json")).toBe("express.json");
+      expect(read("@a/one.json")).toBe("@a%2fone.json");
+      expect(read("@a/one.json.br")).toBe("@a%2fone.json.br");
+      // The newer of the two spellings wins
+      expect(read("@b/two.json")).toBe("@b/two.json");
+      expect(fs.existsSync(path.join(dir, "@b%2ftwo.json"))).toBe(false);
+      expect(fs.existsSync(path.join(dir, "express"))).toBe(false);
+      expect(fs.existsSync(path.join(dir, "express?write=true.json"))).toBe(
+        false,
+      );
+      expect(read("tarballs/keep")).toBe("tarballs/keep");
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
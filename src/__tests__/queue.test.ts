@@ -0,0 +1,113 @@
+import { describe, test, expect, afterEach, setSystemTime } from "bun:test";
+import "./sandbox.ts";
+import {
+  enqueueChanges,
+  readSyncState,
+  dueItems,
+  completeItem,
+  retryItem,
+  type QueueItem,
+} from "../queue.ts";
+import { recordHit } from "../stats.ts";
+
+// Other tests share the database: only look at this file's packages
+function due(prefix: string): QueueItem[] {
+  return dueItems(1000, new Set()).filter((item) =>
+    item.pkg.startsWith(prefix),
+  );
+}
+
+afterEach(() => setSystemTime());
+
+describe("enqueueChanges", () => {
+  test("queues a page and advances the position together", () => {
+    enqueueChanges(
+      [
+        { pkg: "q-page-a", deleted: false },
+        { pkg: "q-page-b", deleted: true },
+      ],
+      "100",
+    );
+    expect(readSyncState().seq).toBe("100");
+    expect(due("q-page-").map((item) => [item.pkg, item.deleted])).toEqual([
+      ["q-page-a", false],
+      ["q-page-b", true],
+    ]);
+
+    // A change that can't be stored leaves neither the page nor the position
+    expect(() =>
+      enqueueChanges(
+        [
+          { pkg: "q-page-c", deleted: false },
+          { pkg: {} as unknown as string, deleted: false },
+        ],
+        "200",
+      ),
+    ).toThrow();
+    expect(readSyncState().seq).toBe("100");
+    expect(due("q-page-c")).toEqual([]);
+  });
+
+  test("puts the most hit packages first", () => {
+    for (let i = 0; i < 3; i++) recordHit("q-prio-hot", 100, 100);
+    recordHit("q-prio-warm", 100, 100);
+    enqueueChanges(
+      [
+        { pkg: "q-prio-cold", deleted: false },
+        { pkg: "q-prio-warm", deleted: false },
+        { pkg: "q-prio-hot", deleted: false },
+      ],
+      "300",
+    );
+    expect(due("q-prio-").map((item) => item.pkg)).toEqual([
+      "q-prio-hot",
+      "q-prio-warm",
+      "q-prio-cold",
+    ]);
+  });
+});
+
+describe("claims", () => {
+  test("a newer change makes an older claim stale", () => {
+    enqueueChanges([{ pkg: "q-gen", deleted: false }], "400");
+    const [claim] = due("q-gen");
+    enqueueChanges([{ pkg: "q-gen", deleted: true }], "401");
+
+    // Neither finishing nor failing the stale claim touches the new change
+    completeItem(claim);
+    expect(retryItem(claim, "boom")).toBe(true);
+    const [current] = due("q-gen");
+    expect(current.generation).toBe(claim.generation + 1);
+    expect(current.deleted).toBe(true);
+    expect(current.attempts).toBe(0);
+
+    completeItem(current);
+    expect(due("q-gen")).toEqual([]);
+  });
+
+  test("backs off exponentially, then gives up", () => {
+    const start = Date.now();
+    setSystemTime(start);
+    enqueueChanges([{ pkg: "q-retry", deleted: false }], "500");
+
+    retryItem(due("q-retry")[0], "upstream 503");
+    expect(due("q-retry")).toEqual([]);
+    setSystemTime(start + 30_000);
+    const [second] = due("q-retry");
+    expect(second.attempts).toBe(1);
+
+    // Twice as long the second time
+    retryItem(second, "upstream 503");
+    setSystemTime(start + 89_999);
+    expect(due("q-retry")).toEqual([]);
+    setSystemTime(start + 90_000);
+    expect(due("q-retry")[0].attempts).toBe(2);
+
+    // The tenth failure drops it until the package changes again
+    setSystemTime(start + 1000 * 60 * 60_000);
+    expect(retryItem({ ...due("q-retry")[0], attempts: 9 }, "gone")).toBe(
+      false,
+    );
+    expect(due("q-retry")).toEqual([]);
+  });
+});
@@ -0,0 +1,43 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+// Modules read their directories once, when first imported, and test files
+// share one module registry: import this before anything that touches disk
+export const TEST_ROOT = fs.mkdtempSync(path.join(os.tmpdir(), "upm-test-"));
+process.env.CACHE_DIR = path.join(TEST_ROOT, "cache");
+process.env.DATA_DIR = path.join(TEST_ROOT, "data");
+process.env.STORAGE_DIR = path.join(TEST_ROOT, "packages");
+
+// Nor do they reach a real registry: upstream is a stub serving whatever
+// tests put in `upstreamPackages`, and noting what was asked of it
+export const upstreamPackages = new Map<string, object>();
+export const upstreamRequests: string[] = [];
+const upstream = Bun.serve({
+  port: 0,
+  fetch(req) {
+    const name = decodeURIComponent(new URL(req.url).pathname.slice(1));
+    upstreamRequests.push(name);
+    const doc = upstreamPackages.get(name);
+    return doc
+      ? Response.json(doc)
+      : Response.json({ error: "Not found" }, { status: 404 });
+  },
+});
+upstream.unref();
+process.env.UPSTREAMS_FILE = path.join(TEST_ROOT, "upstreams.json");
+fs.writeFileSync(
+  process.env.UPSTREAMS_FILE,
+  JSON.stringify({ upstreams: [{ name: "stub", url: upstream.url.href }] }),
+);
+
+// Tests that count what is in the cache start from an empty one
+export function clearCache(): void {
+  const dir = process.env.CACHE_DIR!;
+  fs.rmSync(dir, { recursive: true, force: true });
+  fs.mkdirSync(path.join(dir, "tarballs", "tmp"), { recursive: true });
+}
+
+process.on("exit", () => {
+  fs.rmSync(TEST_ROOT, { recursive: true, force: true });
+});
@@ -0,0 +1,15 @@
+import { describe, test, expect } from "bun:test";
+import "./sandbox.ts";
+import { getStats, recordHit, recordStrip } from "../stats.ts";
+
+describe("bandwidth", () => {
+  test("counts compressed hits as sent, saved against their identity size", () => {
+    const before = getStats().bandwidth;
+    recordStrip("stats-bandwidth", 1000, 400);
+    // 400 stripped bytes, brotli'd to 100 on the wire
+    recordHit("stats-bandwidth", 100, 400);
+    const after = getStats().bandwidth;
+    expect(after.totalServed - before.totalServed).toBe(100);
+    expect(after.totalSaved - before.totalSaved).toBe(600);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, test, expect } from "bun:test";
+import {
+  abbreviateMetadata,
+  acceptsAbbreviated,
+  rewriteTarballUrls,
+  stripMetadata,
+  upstreamTarballPath,
+  type NpmPackageMetadata,
+} from "../strip.ts";
+
+const fixture: NpmPackageMetadata = {
+  name: "demo",
+  description: "a demo package",
+  readme: "# demo",
+  "dist-tags": { latest: "1.1.0" },
+  time: {
+    created: "2020-01-01T00:00:00.000Z",
+    modified: "2021-06-01T00:00:00.000Z",
+    "1.0.0": "2020-01-01T00:00:00.000Z",
+    "1.1.0": "2021-06-01T00:00:00.000Z",
+    "0.9.0-unpublished": "2019-12-01T00:00:00.000Z",
+  },
+  versions: {
+    "1.0.0": {
+      name: "demo",
+      version: "1.0.0",
+      description: "a demo package",
+      scripts: { postinstall: "node build.js", test: "jest" },
+      dependencies: { lodash: "^4.0.0" },
+      devDependencies: { jest: "^29.0.0" },
+      dist: {
+        tarball: "https://registry.npmjs.org/demo/-/demo-1.0.0.tgz",
+        integrity: "sha512-AAAA",
+        shasum: "abc",
+      },
+    },
+    "1.1.0": {
+      name: "demo",
+      version: "1.1.0",
+      deprecated: "use 2.x",
+      maintainers: [{ name: "someone" }],
+      funding: "https://example.com/sponsor",
+      dist: {
+        tarball: "https://registry.npmjs.org/demo/-/demo-1.1.0.tgz",
+        integrity: "sha512-BBBB",
+        shasum: "def",
+        fileCount: 3,
+        unpackedSize: 1024,
+        signatures: [{ keyid: "SHA256:abc", sig: "MEUC" }],
+        "npm-signature": "-----BEGIN PGP SIGNATURE-----",
+      },
+    },
+  },
+};
+
+describe("stripMetadata", () => {
+  test("keeps only install-relevant fields", () => {
+    const stripped = stripMetadata(fixture);
+    expect(stripped).not.toHaveProperty("readme");
+    expect(stripped.versions["1.0.0"]).not.toHaveProperty("description");
+    expect(stripped.versions["1.0.0"].dependencies).toEqual({
+      lodash: "^4.0.0",
+    });
+  });
+
+  test("keeps what clients need for deprecation, scripts and signatures", () => {
+    const stripped = stripMetadata(fixture);
+    const v11 = stripped.versions["1.1.0"];
+    expect(v11.deprecated).toBe("use 2.x");
+    expect(v11.funding).toBe("https://example.com/sponsor");
+    expect(v11.dist).toEqual({
+      tarball: "https://registry.npmjs.org/demo/-/demo-1.1.0.tgz",
+      integrity: "sha512-BBBB",
+      shasum: "def",
+      fileCount: 3,
+      unpackedSize: 1024,
+      signatures: [{ keyid: "SHA256:abc", sig: "MEUC" }],
+    });
+    expect(stripped.versions["1.0.0"].hasInstallScript).toBe(true);
+    expect(stripped.versions["1.0.0"]).not.toHaveProperty("scripts");
+  });
+});
+
+describe("stripMetadata time", () => {
+  test("keeps created, modified and the versions that are present", () => {
+    const stripped = stripMetadata(fixture);
+    expect(stripped.time).toEqual({
+      created: "2020-01-01T00:00:00.000Z",
+      modified: "2021-06-01T00:00:00.000Z",
+      "1.0.0": "2020-01-01T00:00:00.000Z",
+      "1.1.0": "2021-06-01T00:00:00.000Z",
+    });
+  });
+
+  test("ignores keys only inherited by the versions object", () => {
+    const stripped = stripMetadata({
+      ...fixture,
+      time: { ...fixture.time, constructor: "2020-01-01T00:00:00.000Z" },
+    });
+    expect(Object.hasOwn(stripped.time!, "constructor")).toBe(false);
+  });
+});
+
+describe("abbreviateMetadata", () => {
+  test("follows the corgi document shape", () => {
+    const corgi = abbreviateMetadata(fixture);
+    expect(Object.keys(corgi)).toEqual([
+      "name",
+      "modified",
+      "dist-tags",
+      "versions",
+    ]);
+    expect(corgi.modified).toBe("2021-06-01T00:00:00.000Z");
+    expect(corgi.versions["1.1.0"].deprecated).toBe("use 2.x");
+    expect(corgi.versions["1.1.0"]).not.toHaveProperty("maintainers");
+    expect(corgi.versions["1.0.0"].devDependencies).toEqual({
+      jest: "^29.0.0",
+    });
+    expect(corgi.versions["1.0.0"]).not.toHaveProperty("scripts");
+  });
+
+  test("derives hasInstallScript from scripts", () => {
+    const corgi = abbreviateMetadata(fixture);
+    expect(corgi.versions["1.0.0"].hasInstallScript).toBe(true);
+    expect(corgi.versions["1.1.0"]).not.toHaveProperty("hasInstallScript");
+  });
+
+  test("is the same built from the cached stripped document", () => {
+    const cached = JSON.parse(JSON.stringify(stripMetadata(fixture)));
+    expect(abbreviateMetadata(cached)).toEqual(abbreviateMetadata(fixture));
+  });
+});
+
+describe("acceptsAbbreviated", () => {
+  test("negotiates on the Accept header", () => {
+    expect(acceptsAbbreviated(undefined)).toBe(false);
+    expect(acceptsAbbreviated("application/json")).toBe(false);
+    expect(
+      acceptsAbbreviated(
+        "application/vnd.npm.install-v1+json; q=1.0, application/json; q=0.8, */*",
+      ),
+    ).toBe(true);
+    expect(
+      acceptsAbbreviated("application/vnd.npm.install-v1+json;q=0"),
+    ).toBe(false);
+  });
+});
+
+describe("rewriteTarballUrls", () => {
+  test("points upstream tarballs at the proxy", () => {
+    const body = JSON.stringify(stripMetadata(fixture));
+    const rewritten = JSON.parse(
+      rewriteTarballUrls(body, "https://proxy.example/"),
+    );
+    expect(rewritten.versions["1.0.0"].dist.tarball).toBe(
+      "https://proxy.example/demo/-/demo-1.0.0.tgz",
+    );
+  });
+
+  test("takes the base URL literally", () => {
+    const body = JSON.stringify(stripMetadata(fixture));
+    const rewritten = JSON.parse(rewriteTarballUrls(body, "http://a$&b$1"));
+    expect(rewritten.versions["1.0.0"].dist.tarball).toBe(
+      "http://a$&b$1/demo/-/demo-1.0.0.tgz",
+    );
+  });
+});
+
+describe("upstreamTarballPath", () => {
+  test("takes the path past an upstream origin", () => {
+    expect(
+      upstreamTarballPath("https://registry.npmjs.org/demo/-/demo-1.0.0.tgz"),
+    ).toBe("/demo/-/demo-1.0.0.tgz");
+    expect(
+      upstreamTarballPath("https://cdn.example/demo/-/demo-1.0.0.tgz"),
+    ).toBeNull();
+  });
+});
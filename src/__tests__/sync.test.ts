@@ -0,0 +1,84 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { clearCache } from "./sandbox.ts";
+
+// A changes feed that stands wherever the test puts it
+let feedSeq = 500;
+const feed = Bun.serve({
+  port: 0,
+  fetch: () => Response.json({ results: [], last_seq: feedSeq }),
+});
+process.env.CHANGES_URL = `http://localhost:${feed.port}/_changes`;
+afterAll(() => feed.stop(true));
+
+const { seqProblem, startReconcile } = await import("../sync.ts");
+const { writePackument } = await import("../cache.ts");
+const {
+  enqueueChanges,
+  readSyncState,
+  dueItems,
+  completeItem,
+  finishReconcile,
+} = await import("../queue.ts");
+
+const HOUR = 60 * 60_000;
+
+function state(seq: string | null, polledAt: number | null = Date.now()) {
+  return { seq, reconcileSeq: null, polledAt, lastError: null };
+}
+
+describe("seqProblem", () => {
+  test("trusts a position the feed has reached", async () => {
+    expect(await seqProblem(state("400"), true)).toBeNull();
+    expect(await seqProblem(state("500-g1AAAA"), true)).toBeNull();
+  });
+
+  test("distrusts a position ahead of the feed, checked at startup", async () => {
+    expect(await seqProblem(state("900"), true)).toBe(
+      "seq 900 is ahead of the feed (500)",
+    );
+    expect(await seqProblem(state("900"), false)).toBeNull();
+  });
+
+  test("distrusts a position after a long outage", async () => {
+    const polledAt = Date.now() - 30 * HOUR;
+    expect(await seqProblem(state("400", polledAt), false)).toBe(
+      "no successful poll for 30h",
+    );
+    expect(
+      await seqProblem(state("400", Date.now() - 2 * HOUR), false),
+    ).toBeNull();
+  });
+
+  test("distrusts a missing or unreadable position", async () => {
+    expect(await seqProblem(state(null), false)).toBe("no stored seq");
+    expect(await seqProblem(state("now"), false)).toBe('unreadable seq "now"');
+  });
+});
+
+describe("startReconcile", () => {
+  test("holds the position until every cached package is revalidated", async () => {
+    clearCache();
+    for (const name of ["sync-a", "sync-b"]) {
+      await writePackument({
+        name,
+        "dist-tags": { latest: "1.0.0" },
+        versions: { "1.0.0": { name, version: "1.0.0" } },
+      });
+    }
+    enqueueChanges([], "100");
+    feedSeq = 700;
+
+    await startReconcile("test");
+    expect(readSyncState()).toMatchObject({ seq: "100", reconcileSeq: "700" });
+    const items = dueItems(100, new Set()).filter((item) => item.revalidate);
+    expect(items.map((item) => item.pkg).sort()).toEqual(["sync-a", "sync-b"]);
+
+    completeItem(items[0]);
+    expect(finishReconcile()).toBe(false);
+    expect(readSyncState().seq).toBe("100");
+
+    completeItem(items[1]);
+    expect(finishReconcile()).toBe(true);
+    expect(readSyncState()).toMatchObject({ seq: "700", reconcileSeq: null });
+  });
+});
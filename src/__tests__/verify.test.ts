@@ -0,0 +1,76 @@
+import { test, expect } from "bun:test";
+import { TEST_ROOT, clearCache } from "./sandbox.ts";
+import fs from "node:fs";
+import path from "node:path";
+import {
+  writePackument,
+  CACHE_DIR,
+  CACHE_CORGI,
+  CACHE_RAW,
+  TARBALL_DIR,
+} from "../cache.ts";
+
+const VERIFY = path.join(import.meta.dirname, "..", "verify.ts");
+
+// Sees the sandbox through the environment; offline, so a broken package
+// is dropped rather than refetched
+function verify(...args: string[]): { code: number; out: string } {
+  const proc = Bun.spawnSync([process.execPath, VERIFY, ...args], {
+    env: { ...process.env, OFFLINE: "1" },
+  });
+  return { code: proc.exitCode, out: proc.stdout.toString() };
+}
+
+function writeOld(file: string, text: string): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, text);
+  const mtime = new Date(Date.now() - 60 * 60_000);
+  fs.utimesSync(file, mtime, mtime);
+}
+
+test("verify reports broken packages and leftovers; --repair removes them", async () => {
+  expect(CACHE_DIR.startsWith(TEST_ROOT)).toBe(true);
+  clearCache();
+  await writePackument({
+    name: "verify-ok",
+    "dist-tags": { latest: "1.0.0" },
+    versions: { "1.0.0": { name: "verify-ok", version: "1.0.0" } },
+  });
+  await writePackument({
+    name: "verify-broken",
+    "dist-tags": { latest: "1.0.0" },
+    versions: { "1.0.0": { name: "verify-broken", version: "1.0.0" } },
+  });
+  fs.writeFileSync(path.join(CACHE_DIR, "verify-broken.json"), "{");
+
+  const leftovers = [
+    // A package named raw-*, not the raw/ staging directory
+    path.join(CACHE_DIR, "raw-body.json.1.abcd.tmp"),
+    path.join(CACHE_CORGI, "verify-ok.json.1.abcd.tmp"),
+    path.join(CACHE_RAW, "verify-ok.json"),
+    path.join(TARBALL_DIR, "tmp", "partial"),
+  ];
+  for (const file of leftovers) writeOld(file, "{}");
+  // Still being written
+  const fresh = path.join(CACHE_DIR, "verify-ok.json.2.abcd.tmp");
+  fs.writeFileSync(fresh, "{}");
+
+  const check = verify();
+  expect(check.code).toBe(1);
+  expect(check.out).toContain(
+    "verify-broken: verify-broken.json: not valid JSON",
+  );
+  expect(check.out).toContain("leftover raw-body.json.1.abcd.tmp");
+  expect(check.out).toContain("1 broken packages, 4 leftover files");
+  expect(check.out).not.toContain("verify-ok:");
+
+  const repair = verify("--repair");
+  expect(repair.code).toBe(0);
+  expect(repair.out).toContain("removed verify-broken");
+  for (const file of leftovers) expect(fs.existsSync(file)).toBe(false);
+  expect(fs.existsSync(fresh)).toBe(true);
+  expect(fs.existsSync(path.join(CACHE_DIR, "verify-broken.json"))).toBe(false);
+  expect(fs.existsSync(path.join(CACHE_DIR, "verify-ok.json"))).toBe(true);
+
+  expect(verify().out).toContain("0 broken packages, 0 leftover files");
+});
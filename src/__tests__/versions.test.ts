@@ -0,0 +1,72 @@
+import { test, expect } from "bun:test";
+import {
+  resolveVersion,
+  registryDependency,
+  installedDependencies,
+  type VersionedDocument,
+} from "../versions.ts";
+
+const doc: VersionedDocument = {
+  "dist-tags": { latest: "1.9.0", next: "2.0.0-beta.1", gone: "0.1.0" },
+  versions: {
+    "1.0.0": {},
+    "1.9.0": {},
+    "1.10.0": {},
+    "2.0.0-beta.1": {},
+  },
+};
+
+test("resolves exact versions and dist-tags", () => {
+  expect(resolveVersion(doc, "1.0.0")).toBe("1.0.0");
+  expect(resolveVersion(doc, "latest")).toBe("1.9.0");
+  expect(resolveVersion(doc, "next")).toBe("2.0.0-beta.1");
+  // A tag pointing at a version that isn't there resolves to nothing
+  expect(resolveVersion(doc, "gone")).toBeNull();
+});
+
+test("resolves ranges, preferring the latest tag", () => {
+  expect(resolveVersion(doc, "^1.0.0")).toBe("1.9.0");
+  expect(resolveVersion(doc, ">1.9.0")).toBe("1.10.0");
+  expect(resolveVersion(doc, "~1.0")).toBe("1.0.0");
+  // Prereleases only match ranges that name them
+  expect(resolveVersion(doc, ">=2")).toBeNull();
+  expect(resolveVersion(doc, "^2.0.0-beta.0")).toBe("2.0.0-beta.1");
+});
+
+test("returns null for unknown versions and nonsense", () => {
+  expect(resolveVersion(doc, "3.0.0")).toBeNull();
+  expect(resolveVersion(doc, "not a range")).toBeNull();
+  expect(resolveVersion({}, "latest")).toBeNull();
+  expect(resolveVersion(doc, "constructor")).toBeNull();
+});
+
+test("maps dependency specs to registry lookups", () => {
+  expect(registryDependency("a", "^1.2.0")).toEqual({
+    name: "a",
+    spec: "^1.2.0",
+  });
+  expect(registryDependency("a", "")).toEqual({ name: "a", spec: "*" });
+  expect(registryDependency("a", "npm:@ourco/b@^2")).toEqual({
+    name: "@ourco/b",
+    spec: "^2",
+  });
+  expect(registryDependency("a", "npm:b")).toEqual({ name: "b", spec: "*" });
+  expect(registryDependency("a", "github:user/a")).toBeNull();
+  expect(registryDependency("a", "user/a#v1")).toBeNull();
+  expect(registryDependency("a", "file:../a")).toBeNull();
+});
+
+test("lists what a version installs, skipping optional peers", () => {
+  const deps = installedDependencies({
+    dependencies: { a: "^1", b: "^2" },
+    optionalDependencies: { b: "^3", fsevents: "^2" },
+    peerDependencies: { react: ">=17", "react-dom": ">=17" },
+    peerDependenciesMeta: { "react-dom": { optional: true } },
+  });
+  expect(deps).toEqual([
+    { name: "react", spec: ">=17" },
+    { name: "a", spec: "^1" },
+    { name: "b", spec: "^3" },
+    { name: "fsevents", spec: "^2" },
+  ]);
+});
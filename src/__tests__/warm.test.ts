@@ -0,0 +1,98 @@
+import { describe, test, expect } from "bun:test";
+import {
+  TEST_ROOT,
+  clearCache,
+  upstreamPackages,
+  upstreamRequests,
+} from "./sandbox.ts";
+import fs from "node:fs";
+import path from "node:path";
+
+const SEED_FILE = path.join(TEST_ROOT, "seeds.txt");
+fs.writeFileSync(
+  SEED_FILE,
+  [
+    "# warmed on every pass",
+    "warm-seed",
+    "",
+    "  warm-seed-cached   # already cached",
+    "Not A Package",
+  ].join("\n"),
+);
+// Read once at import
+process.env.WARM_TOP = "2";
+process.env.WARM_SEED_FILE = SEED_FILE;
+const { readSeedList, warmPopular } = await import("../warm.ts");
+const { writePackument, CACHE_DIR } = await import("../cache.ts");
+const { recordHit, recordMiss, topPackages } = await import("../stats.ts");
+
+function packument(name: string) {
+  return {
+    name,
+    "dist-tags": { latest: "1.0.0" },
+    versions: { "1.0.0": { name, version: "1.0.0" } },
+  };
+}
+
+const cached = (name: string) =>
+  fs.existsSync(path.join(CACHE_DIR, `${name}.json`));
+
+// Other tests record a few hits of their own; these outnumber them
+function request(name: string, times: number): void {
+  for (let i = 0; i < times; i++) {
+    if (i % 2) recordMiss(name, 100, 10);
+    else recordHit(name, 100, 100);
+  }
+}
+
+test("readSeedList skips blank lines and comments", () => {
+  expect(readSeedList(SEED_FILE)).toEqual([
+    "warm-seed",
+    "warm-seed-cached",
+    "Not A Package",
+  ]);
+});
+
+describe("top packages", () => {
+  test("ranks packages by requests, up to the limit", () => {
+    request("warm-top-a", 20);
+    request("warm-top-b", 30);
+    request("warm-top-c", 10);
+    expect(topPackages(2, 30)).toEqual(["warm-top-b", "warm-top-a"]);
+    expect(topPackages(3, 30)).toEqual([
+      "warm-top-b",
+      "warm-top-a",
+      "warm-top-c",
+    ]);
+  });
+
+  test("warmPopular fetches the seeds and the top N not cached yet", async () => {
+    clearCache();
+    await writePackument(packument("warm-seed-cached"));
+    for (const name of [
+      "warm-seed",
+      "warm-top-a",
+      "warm-top-b",
+      "warm-top-c",
+    ]) {
+      upstreamPackages.set(name, packument(name));
+    }
+    upstreamRequests.length = 0;
+
+    await warmPopular();
+
+    expect(upstreamRequests.sort()).toEqual([
+      "warm-seed",
+      "warm-top-a",
+      "warm-top-b",
+    ]);
+    for (const name of ["warm-seed", "warm-top-a", "warm-top-b"]) {
+      expect(cached(name)).toBe(true);
+    }
+    expect(cached("warm-top-c")).toBe(false);
+
+    // Nothing left to fetch
+    await warmPopular();
+    expect(upstreamRequests).toHaveLength(3);
+  });
+});
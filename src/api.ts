@@ -1,7 +1,16 @@
 import fs from "node:fs";
 import http from "node:http";
 import path from "node:path";
-import { getStats } from "./stats.ts";
+import {
+  getStats,
+  statsHistory,
+  startRollups,
+  STATS_RETENTION_DAYS,
+  type Bucket,
+  type Stats,
+  type StatsBucket,
+} from "./stats.ts";
+import { createHistogram, sendMetrics } from "./metrics.ts";
 import { renderStatsPage } from "./views/render.ts";
 
 const PORT = Number(process.env.API_PORT) || 4000;
@@ -9,7 +18,66 @@ const favicon = fs.readFileSync(
   path.join(import.meta.dirname, "views", "upm-favicon.svg"),
 );
 
+const DAY_MS = 24 * 60 * 60_000;
+// Span covered when ?from= is left out
+const HISTORY_SPAN: Record<Bucket, number> = {
+  hour: DAY_MS,
+  day: 30 * DAY_MS,
+};
+const MAX_BUCKETS = 1000;
+
+// What the registry's own /-/metrics leaves out: the cost of the SQL
+// aggregations behind the stats page
+const statsDuration = createHistogram(
+  "upm_api_stats_query_duration_seconds",
+  "Time to aggregate the stats database for /stats and the stats page",
+);
+
+function timedStats(): Stats {
+  const startTime = performance.now();
+  const stats = getStats();
+  statsDuration.observe((performance.now() - startTime) / 1000);
+  return stats;
+}
+
+// ?from=&to= take anything Date.parse does, and default to the last day
+// (hourly) or 30 days (daily) up to now
+function parseHistoryQuery(params: URLSearchParams): {
+  bucket: Bucket;
+  from: number;
+  to: number;
+} {
+  const bucket = params.get("bucket") ?? "hour";
+  if (bucket !== "hour" && bucket !== "day") {
+    throw new Error(`bucket must be "hour" or "day"`);
+  }
+  const to = params.has("to") ? Date.parse(params.get("to")!) : Date.now();
+  const from = params.has("from")
+    ? Date.parse(params.get("from")!)
+    : to - HISTORY_SPAN[bucket];
+  if (Number.isNaN(from) || Number.isNaN(to)) {
+    throw new Error("from and to must be dates");
+  }
+  if (from > to) throw new Error("from is after to");
+  const size = bucket === "hour" ? DAY_MS / 24 : DAY_MS;
+  if ((to - from) / size > MAX_BUCKETS) {
+    throw new Error(`at most ${MAX_BUCKETS} buckets per request`);
+  }
+  return { bucket, from, to };
+}
+
+function sendJson(res: http.ServerResponse, status: number, value: unknown) {
+  const body = JSON.stringify(value);
+  res.writeHead(status, {
+    "content-type": "application/json",
+    "content-length": Buffer.byteLength(body),
+  });
+  res.end(body);
+}
+
 const server = http.createServer((req, res) => {
+  const url = new URL(req.url!, "http://localhost");
+
   if (req.method === "GET" && req.url === "/favicon.svg") {
     res.writeHead(200, {
       "content-type": "image/svg+xml",
@@ -20,19 +88,42 @@ const server = http.createServer((req, res) => {
     return;
   }
 
-  if (req.method === "GET" && req.url === "/stats") {
-    const body = JSON.stringify(getStats());
-    res.writeHead(200, {
-      "content-type": "application/json",
-      "content-length": Buffer.byteLength(body),
+  if (req.method === "GET" && req.url === "/metrics") {
+    sendMetrics(req, res);
+    return;
+  }
+
+  // All-time totals, or with a query, history bucket by bucket
+  if (req.method === "GET" && url.pathname === "/stats") {
+    if (!url.search) {
+      sendJson(res, 200, timedStats());
+      return;
+    }
+    let query: ReturnType<typeof parseHistoryQuery>;
+    try {
+      query = parseHistoryQuery(url.searchParams);
+    } catch (err) {
+      sendJson(res, 400, { error: (err as Error).message });
+      return;
+    }
+    const { bucket, from, to } = query;
+    sendJson(res, 200, {
+      bucket,
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      buckets: statsHistory(bucket, from, to),
     });
-    res.end(body);
     return;
   }
 
   if (req.method === "GET" && req.url === "/") {
     const host = req.headers.host?.replace(/:\d+$/, "");
-    const body = renderStatsPage(getStats(), host);
+    const now = Date.now();
+    const history: Record<Bucket, StatsBucket[]> = {
+      hour: statsHistory("hour", now - HISTORY_SPAN.hour, now),
+      day: statsHistory("day", now - HISTORY_SPAN.day, now),
+    };
+    const body = renderStatsPage(timedStats(), history, host);
     res.writeHead(200, {
       "content-type": "text/html; charset=utf-8",
       "content-length": Buffer.byteLength(body),
@@ -47,4 +138,8 @@ const server = http.createServer((req, res) => {
 
 server.listen(PORT, () => {
   console.log(`upm-registry API on http://localhost:${PORT}`);
+  if (STATS_RETENTION_DAYS) {
+    console.log(`Stats: raw events kept ${STATS_RETENTION_DAYS} days`);
+  }
+  startRollups();
 });
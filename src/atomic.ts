@@ -0,0 +1,23 @@
+import crypto from "node:crypto";
+import fsp from "node:fs/promises";
+import path from "node:path";
+
+// Write to a temp file beside the target and rename it into place, so a
+// reader, or a restart after a crash, sees the old file or the new one and
+// never half of either. `mtime` dates the file from the moment it appears.
+export async function writeFileAtomic(
+  file: string,
+  data: string | Buffer,
+  mtime?: Date,
+): Promise<void> {
+  await fsp.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.${crypto.randomBytes(4).toString("hex")}.tmp`;
+  try {
+    await fsp.writeFile(tmp, data);
+    if (mtime) await fsp.utimes(tmp, mtime, mtime);
+    await fsp.rename(tmp, file);
+  } catch (err) {
+    await fsp.rm(tmp, { force: true });
+    throw err;
+  }
+}
@@ -0,0 +1,206 @@
+import http from "node:http";
+import { ACCESS_RULES, matchesPackage } from "./config.ts";
+import {
+  userExists,
+  createUser,
+  verifyPassword,
+  createToken,
+  lookupToken,
+  listTokens,
+  revokeToken,
+  revokeTokenValue,
+  type TokenInfo,
+} from "./users.ts";
+import { sendJson, readJsonBody } from "./publish.ts";
+import { RegistryError } from "./storage.ts";
+
+// Whether `npm adduser` may create accounts; otherwise use `bun src/users.ts`
+const ALLOW_SIGNUP = ["1", "true"].includes(
+  (process.env.ALLOW_SIGNUP ?? "").toLowerCase(),
+);
+
+export type Permission = "read" | "publish";
+
+function bearerToken(req: http.IncomingMessage): string | null {
+  const header = req.headers.authorization;
+  if (!header?.toLowerCase().startsWith("bearer ")) return null;
+  return header.slice("bearer ".length).trim() || null;
+}
+
+// The token a request carries, or null for anonymous requests
+export function authenticate(req: http.IncomingMessage): TokenInfo | null {
+  const token = bearerToken(req);
+  return token ? lookupToken(token) : null;
+}
+
+// Registry-wide endpoints (pkg null) fall under the "*" rule
+export function isAllowed(
+  identity: TokenInfo | null,
+  permission: Permission,
+  pkg: string | null,
+): boolean {
+  if (permission === "publish" && identity?.readonly) return false;
+  const rule = ACCESS_RULES.find((r) =>
+    pkg === null ? r.pattern === "*" : matchesPackage(r.pattern, pkg),
+  );
+  if (!rule) return false;
+  return rule[permission].some(
+    (principal) =>
+      principal === "$all" ||
+      (identity !== null &&
+        (principal === "$authenticated" || principal === identity.username)),
+  );
+}
+
+// 401 asks npm to log in; 403 means logging in won't help
+export function deny(
+  identity: TokenInfo | null,
+  permission: Permission,
+  pkg: string | null,
+  clientRes: http.ServerResponse,
+): void {
+  const target = pkg ?? "this registry";
+  if (!identity) {
+    clientRes.setHeader("www-authenticate", 'Bearer realm="upm-registry"');
+    sendJson(clientRes, 401, {
+      error: `authentication required to ${permission} ${target}`,
+    });
+    return;
+  }
+  const reason = identity.readonly ? " with a read-only token" : "";
+  sendJson(clientRes, 403, {
+    error: `${identity.username} may not ${permission} ${target}${reason}`,
+  });
+}
+
+export function isUserRoute(url: string): boolean {
+  const p = url.split("?")[0];
+  return (
+    p.startsWith("/-/user/") ||
+    p === "/-/whoami" ||
+    p.startsWith("/-/npm/v1/tokens") ||
+    p.startsWith("/-/v1/login")
+  );
+}
+
+interface LoginBody {
+  name?: string;
+  password?: string;
+  email?: string;
+}
+
+// npm login/adduser, logout, whoami and `npm token`
+export async function handleUserRequest(
+  id: string,
+  clientReq: http.IncomingMessage,
+  clientRes: http.ServerResponse,
+): Promise<void> {
+  const p = clientReq.url!.split("?")[0];
+  const method = clientReq.method;
+  const identity = authenticate(clientReq);
+
+  try {
+    // Web login isn't offered; npm falls back to username and password
+    if (p.startsWith("/-/v1/login")) {
+      throw new RegistryError(404, "web login is not supported");
+    }
+
+    // PUT /-/user/org.couchdb.user:<name>
+    if (method === "PUT" && p.startsWith("/-/user/org.couchdb.user:")) {
+      const name = decodeURIComponent(
+        p.slice("/-/user/org.couchdb.user:".length),
+      );
+      const body = (await readJsonBody(clientReq)) as LoginBody;
+      if (!name || body.name !== name || !body.password) {
+        throw new RegistryError(400, "name and password are required");
+      }
+      if (userExists(name)) {
+        if (!(await verifyPassword(name, body.password))) {
+          throw new RegistryError(401, "incorrect username or password");
+        }
+      } else {
+        if (!ALLOW_SIGNUP) throw new RegistryError(403, "signup is disabled");
+        await createUser(name, body.password, body.email);
+        console.log(`  👤 ${id} created user ${name}`);
+      }
+      const { token } = createToken(name);
+      console.log(`  🔑 ${id} ${name} logged in`);
+      sendJson(clientRes, 201, {
+        ok: true,
+        id: `org.couchdb.user:${name}`,
+        token,
+      });
+      return;
+    }
+
+    // DELETE /-/user/token/<token> (npm logout)
+    if (method === "DELETE" && p.startsWith("/-/user/token/")) {
+      revokeTokenValue(decodeURIComponent(p.slice("/-/user/token/".length)));
+      sendJson(clientRes, 200, { ok: true });
+      return;
+    }
+
+    if (!identity) throw new RegistryError(401, "authentication required");
+
+    if (method === "GET" && p === "/-/whoami") {
+      sendJson(clientRes, 200, { username: identity.username });
+      return;
+    }
+
+    if (method === "GET" && p === "/-/npm/v1/tokens") {
+      const objects = listTokens(identity.username).map((t) => ({
+        key: t.key,
+        token: t.key.slice(0, 6),
+        readonly: t.readonly,
+        created: t.created,
+        cidr_whitelist: null,
+      }));
+      sendJson(clientRes, 200, { objects, total: objects.length, urls: {} });
+      return;
+    }
+
+    // POST /-/npm/v1/tokens { password, readonly }
+    if (method === "POST" && p === "/-/npm/v1/tokens") {
+      const body = (await readJsonBody(clientReq)) as {
+        password?: string;
+        readonly?: boolean;
+      };
+      if (
+        !body.password ||
+        !(await verifyPassword(identity.username, body.password))
+      ) {
+        throw new RegistryError(401, "incorrect password");
+      }
+      const { token, info } = createToken(identity.username, !!body.readonly);
+      console.log(
+        `  🔑 ${id} ${identity.username} created a${info.readonly ? " read-only" : ""} token`,
+      );
+      sendJson(clientRes, 201, {
+        token,
+        key: info.key,
+        readonly: info.readonly,
+        created: info.created,
+        cidr_whitelist: null,
+      });
+      return;
+    }
+
+    // DELETE /-/npm/v1/tokens/token/<key>
+    if (method === "DELETE" && p.startsWith("/-/npm/v1/tokens/token/")) {
+      const key = decodeURIComponent(p.slice("/-/npm/v1/tokens/token/".length));
+      if (!revokeToken(identity.username, key)) {
+        throw new RegistryError(404, "no such token");
+      }
+      clientRes.writeHead(204);
+      clientRes.end();
+      return;
+    }
+
+    throw new RegistryError(404, "not found");
+  } catch (err) {
+    const status = err instanceof RegistryError ? err.status : 500;
+    const message = (err as Error).message;
+    if (status >= 500) console.error(`  ✗ ${id} ${method} ${p}: ${message}`);
+    if (!clientRes.headersSent) sendJson(clientRes, status, { error: message });
+  }
+}
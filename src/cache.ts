@@ -0,0 +1,111 @@
+import fsp from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  stripMetadata,
+  abbreviateMetadata,
+  type NpmPackageMetadata,
+} from "./strip.ts";
+import {
+  writeCompressedSiblings,
+  removeCompressedSiblings,
+  siblingPath,
+} from "./encoding.ts";
+import { writeFileAtomic } from "./atomic.ts";
+import { packageFile } from "./names.ts";
+import { createCounter } from "./metrics.ts";
+
+// Every writer of cached packuments (proxy misses, prefetch, sync, local
+// publishes) goes through here, so each file is replaced atomically and a
+// half-written document is never served
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+export const CACHE_DIR =
+  process.env.CACHE_DIR ?? path.join(__dirname, "..", "cache");
+// Abbreviated documents
+export const CACHE_CORGI = path.join(CACHE_DIR, "corgi");
+// Upstream documents staged between fetching and stripping
+export const CACHE_RAW = path.join(CACHE_DIR, "raw");
+export const TARBALL_DIR = path.join(CACHE_DIR, "tarballs");
+
+// Labelled by type (packument, tarball) and result (hit, miss, stale, ...).
+// Here rather than in server.ts so tarballs.ts can count the misses it fetches.
+export const cacheRequests = createCounter(
+  "upm_cache_requests_total",
+  "Package documents and tarballs served, by type and cache result",
+  true,
+);
+
+// Write the stripped and abbreviated documents, then their siblings.
+// `mtime` is when the document was fetched, if it was already announced as
+// its Last-Modified.
+export async function writePackument(
+  data: NpmPackageMetadata,
+  dest: string = packageFile(CACHE_DIR, data.name),
+  corgiDest: string = packageFile(CACHE_CORGI, data.name),
+  mtime?: Date,
+): Promise<{ stripped: string; abbreviated: string }> {
+  const stripped = JSON.stringify(stripMetadata(data));
+  const abbreviated = JSON.stringify(abbreviateMetadata(data));
+  await writeFileAtomic(dest, stripped, mtime);
+  await writeFileAtomic(corgiDest, abbreviated, mtime);
+  await writeCompressedSiblings(dest, stripped);
+  await writeCompressedSiblings(corgiDest, abbreviated);
+  return { stripped, abbreviated };
+}
+
+export async function removePackument(pkg: string): Promise<void> {
+  const dest = packageFile(CACHE_DIR, pkg);
+  const corgiDest = packageFile(CACHE_CORGI, pkg);
+  await fsp.rm(dest, { force: true });
+  await fsp.rm(corgiDest, { force: true });
+  await removeCompressedSiblings(dest);
+  await removeCompressedSiblings(corgiDest);
+}
+
+// Upstream confirmed the cached documents are current: date them `mtime`
+// without rewriting them. Siblings are dated alike, or they'd look stale.
+export async function touchPackument(pkg: string, mtime: Date): Promise<void> {
+  for (const dest of [
+    packageFile(CACHE_DIR, pkg),
+    packageFile(CACHE_CORGI, pkg),
+  ]) {
+    for (const file of [
+      dest,
+      siblingPath(dest, "br"),
+      siblingPath(dest, "gzip"),
+    ]) {
+      await fsp.utimes(file, mtime, mtime).catch(() => {});
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Why a cached document for `pkg` can't be served, or null when it can.
+// Both the stripped and the abbreviated shape pass; so does the stub the
+// registry keeps for a fully unpublished package.
+export function packumentProblem(text: string, pkg: string): string | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return "not valid JSON";
+  }
+  if (!isObject(data)) return "not a JSON object";
+  if (data.name !== pkg) return `name is ${JSON.stringify(data.name)}`;
+  if (isObject(data.time) && data.time.unpublished) return null;
+
+  const { versions } = data;
+  if (!isObject(versions)) return "versions missing";
+  if (!isObject(data["dist-tags"])) return "dist-tags missing";
+  for (const [version, entry] of Object.entries(versions)) {
+    if (!isObject(entry)) return `version ${version} is not an object`;
+    if (entry.dist !== undefined && !isObject(entry.dist)) {
+      return `version ${version} has an invalid dist`;
+    }
+  }
+  return null;
+}
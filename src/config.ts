@@ -0,0 +1,120 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const UPSTREAMS_FILE =
+  process.env.UPSTREAMS_FILE ??
+  path.join(__dirname, "..", "config", "upstreams.json");
+const ACCESS_FILE =
+  process.env.ACCESS_FILE ??
+  path.join(__dirname, "..", "config", "access.json");
+
+export interface Upstream {
+  name: string;
+  // Origin plus optional path prefix, without trailing slash
+  url: string;
+  // Package patterns routed to this upstream exclusively ("@ourco/*");
+  // empty means it serves everything else
+  scopes: string[];
+  token?: string;
+}
+
+interface UpstreamEntry {
+  name?: string;
+  url: string;
+  scopes?: string[];
+  // Literal token, or the name of an env var holding it (keeps secrets out of the file)
+  token?: string;
+  tokenEnv?: string;
+}
+
+const DEFAULT_UPSTREAMS: Upstream[] = [
+  { name: "npmjs", url: "https://registry.npmjs.org", scopes: [] },
+];
+
+function loadUpstreams(): Upstream[] {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(UPSTREAMS_FILE, "utf8");
+  } catch {
+    return DEFAULT_UPSTREAMS;
+  }
+
+  const parsed = JSON.parse(raw) as { upstreams?: UpstreamEntry[] };
+  if (!parsed.upstreams?.length) {
+    throw new Error(`${UPSTREAMS_FILE}: no upstreams configured`);
+  }
+  return parsed.upstreams.map((entry) => {
+    if (!entry.url) throw new Error(`${UPSTREAMS_FILE}: upstream without url`);
+    const url = entry.url.replace(/\/+$/, "");
+    return {
+      name: entry.name ?? new URL(url).hostname,
+      url,
+      scopes: entry.scopes ?? [],
+      token: entry.token ?? (entry.tokenEnv && process.env[entry.tokenEnv]),
+    };
+  });
+}
+
+// Ordered: earlier upstreams are tried first
+export const UPSTREAMS = loadUpstreams();
+export const UPSTREAMS_SOURCE = fs.existsSync(UPSTREAMS_FILE)
+  ? UPSTREAMS_FILE
+  : "default";
+
+// "@ourco/*" and "@ourco" match the scope, "*" matches every package
+export function matchesPackage(pattern: string, pkg: string): boolean {
+  if (pattern === pkg) return true;
+  if (pattern.startsWith("@") && !pattern.includes("/")) {
+    return pkg.startsWith(pattern + "/");
+  }
+  const re = new RegExp(
+    "^" +
+      pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*") +
+      "$",
+  );
+  return re.test(pkg);
+}
+
+// Principals: a username, "$authenticated" (any valid token) or "$all"
+export interface AccessRule {
+  pattern: string;
+  read: string[];
+  publish: string[];
+}
+
+const DEFAULT_ACCESS: AccessRule[] = [
+  { pattern: "*", read: ["$all"], publish: ["$authenticated"] },
+];
+
+function loadAccessRules(): AccessRule[] {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(ACCESS_FILE, "utf8");
+  } catch {
+    return DEFAULT_ACCESS;
+  }
+
+  const parsed = JSON.parse(raw) as { packages?: Partial<AccessRule>[] };
+  if (!parsed.packages?.length) {
+    throw new Error(`${ACCESS_FILE}: no package rules configured`);
+  }
+  return parsed.packages.map((entry) => {
+    if (!entry.pattern) throw new Error(`${ACCESS_FILE}: rule without pattern`);
+    return {
+      pattern: entry.pattern,
+      read: entry.read ?? [],
+      publish: entry.publish ?? [],
+    };
+  });
+}
+
+// First matching rule wins; a package no rule matches is off limits
+export const ACCESS_RULES = loadAccessRules();
+export const ACCESS_SOURCE = fs.existsSync(ACCESS_FILE)
+  ? ACCESS_FILE
+  : "default";
@@ -0,0 +1,124 @@
+import fsp from "node:fs/promises";
+import zlib from "node:zlib";
+import { promisify } from "node:util";
+import { rewriteTarballUrls } from "./strip.ts";
+import { writeFileAtomic } from "./atomic.ts";
+
+const brotliCompress = promisify(zlib.brotliCompress);
+const brotliDecompress = promisify(zlib.brotliDecompress);
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+const inflate = promisify(zlib.inflate);
+
+// Pre-compressed siblings are served as-is, so the tarball URLs inside them
+// are baked in at write time. That is only possible with a fixed public URL.
+const SIBLING_BASE_URL = process.env.PUBLIC_URL?.replace(/\/+$/, "");
+
+export type ContentEncoding = "br" | "gzip";
+
+const SIBLING_EXT: Record<ContentEncoding, string> = {
+  br: ".br",
+  gzip: ".gz",
+};
+
+export async function decompress(
+  buf: Buffer,
+  encoding: string | undefined,
+): Promise<Buffer> {
+  if (encoding === "br") return brotliDecompress(buf);
+  if (encoding === "gzip") return gunzip(buf);
+  if (encoding === "deflate") return inflate(buf);
+  return buf;
+}
+
+// Siblings are compressed once and served many times, so they get the
+// expensive settings; a body compressed per request gets cheap ones
+export async function compress(
+  buf: Buffer,
+  encoding: ContentEncoding,
+  perRequest = false,
+): Promise<Buffer> {
+  if (encoding === "br") {
+    return brotliCompress(buf, {
+      params: {
+        [zlib.constants.BROTLI_PARAM_MODE]: zlib.constants.BROTLI_MODE_TEXT,
+        [zlib.constants.BROTLI_PARAM_QUALITY]: perRequest ? 4 : 9,
+        [zlib.constants.BROTLI_PARAM_SIZE_HINT]: buf.length,
+      },
+    });
+  }
+  return gzip(buf, { level: perRequest ? 6 : 9 });
+}
+
+// Pick the best of `available` the client accepts (q=0 refuses), preferring
+// the order given
+export function negotiateEncoding(
+  acceptEncoding: string | undefined,
+  available: ContentEncoding[],
+): ContentEncoding | null {
+  if (!acceptEncoding) return null;
+  const accepted = new Map<string, number>();
+  for (const part of acceptEncoding.split(",")) {
+    const [coding, ...params] = part.trim().toLowerCase().split(";");
+    const q = params.find((p) => p.trim().startsWith("q="));
+    accepted.set(coding.trim(), q ? Number(q.trim().slice(2)) : 1);
+  }
+  for (const encoding of available) {
+    const q = accepted.get(encoding) ?? accepted.get("*") ?? 0;
+    if (q > 0) return encoding;
+  }
+  return null;
+}
+
+export function siblingPath(
+  jsonPath: string,
+  encoding: ContentEncoding,
+): string {
+  return jsonPath + SIBLING_EXT[encoding];
+}
+
+// The base URL baked into siblings, or null when they are not written
+export function siblingBaseUrl(): string | null {
+  return SIBLING_BASE_URL ?? null;
+}
+
+// Write .br and .gz next to a stripped JSON document
+export async function writeCompressedSiblings(
+  jsonPath: string,
+  text: string,
+): Promise<void> {
+  if (!SIBLING_BASE_URL) return;
+  const body = Buffer.from(rewriteTarballUrls(text, SIBLING_BASE_URL));
+  await Promise.all(
+    (Object.keys(SIBLING_EXT) as ContentEncoding[]).map(async (encoding) => {
+      await writeFileAtomic(
+        siblingPath(jsonPath, encoding),
+        await compress(body, encoding),
+      );
+    }),
+  );
+}
+
+// A sibling is only usable if it was written after the JSON it mirrors
+export async function readCompressedSibling(
+  jsonPath: string,
+  encoding: ContentEncoding,
+  jsonMtime: Date,
+): Promise<Buffer | null> {
+  const file = siblingPath(jsonPath, encoding);
+  try {
+    const stat = await fsp.stat(file);
+    if (stat.mtimeMs < jsonMtime.getTime()) return null;
+    return await fsp.readFile(file);
+  } catch {
+    return null;
+  }
+}
+
+export async function removeCompressedSiblings(jsonPath: string): Promise<void> {
+  await Promise.all(
+    (Object.keys(SIBLING_EXT) as ContentEncoding[]).map((encoding) =>
+      fsp.rm(siblingPath(jsonPath, encoding), { force: true }),
+    ),
+  );
+}
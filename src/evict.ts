@@ -0,0 +1,233 @@
+import fsp from "node:fs/promises";
+import path from "node:path";
+import { matchesPackage } from "./config.ts";
+import { digestFromDist, tarballPath } from "./tarballs.ts";
+import { isLocalPackage } from "./storage.ts";
+import { isValidPackageName, packageFile } from "./names.ts";
+import { lastAccessTimes, recordCacheSize, recordEviction } from "./stats.ts";
+import { createCounter, createGauge } from "./metrics.ts";
+import { CACHE_DIR, CACHE_CORGI, TARBALL_DIR } from "./cache.ts";
+
+const EVICT_INTERVAL = 5 * 60_000; // 5 minutes
+// Evict down to this share of the budget so one pass buys some headroom
+const LOW_WATER = 0.9;
+
+// As measured by the last pass
+const cacheBytes = createGauge(
+  "upm_cache_size_bytes",
+  "Size of the cache on disk: package documents and tarballs",
+);
+const evictions = createCounter(
+  "upm_evictions_total",
+  "Packages evicted to keep the cache under budget",
+);
+
+// "8Gi", "500M", "1073741824" → bytes; 0 when unset (no limit)
+export function parseBytes(value: string | undefined): number {
+  if (!value) return 0;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(?:([kmgt])(i?)b?)?$/i);
+  if (!match) throw new Error(`CACHE_MAX_BYTES: cannot parse "${value}"`);
+  const [, num, unit = "", binary] = match;
+  const base = binary || !unit ? 1024 : 1000;
+  const power = " kmgt".indexOf(unit.toLowerCase() || " ");
+  return Math.floor(Number(num) * base ** power);
+}
+
+export const CACHE_MAX_BYTES = parseBytes(process.env.CACHE_MAX_BYTES);
+// Comma-separated package patterns ("react,@ourco") never evicted
+export const CACHE_PINNED = (process.env.CACHE_PINNED ?? "")
+  .split(",")
+  .map((p) => p.trim())
+  .filter(Boolean);
+
+function isPinned(pkg: string): boolean {
+  return (
+    CACHE_PINNED.some((pattern) => matchesPackage(pattern, pkg)) ||
+    isLocalPackage(pkg)
+  );
+}
+
+interface CachedPackage {
+  // Packument files: full and abbreviated, with compressed siblings
+  files: string[];
+  bytes: number;
+  mtimeMs: number;
+  // Tarballs its versions point at that are in the store
+  tarballs: string[];
+}
+
+interface FileInfo {
+  size: number;
+  mtimeMs: number;
+}
+
+async function listFiles(dir: string): Promise<Map<string, FileInfo>> {
+  const files = new Map<string, FileInfo>();
+  const entries = await fsp
+    .readdir(dir, { recursive: true, withFileTypes: true })
+    .catch(() => []);
+  for (const entry of entries) {
+    if (!entry.isFile()) continue;
+    const file = path.join(entry.parentPath, entry.name);
+    const stat = await fsp.stat(file).catch(() => null);
+    if (stat) files.set(file, { size: stat.size, mtimeMs: stat.mtimeMs });
+  }
+  return files;
+}
+
+// cache/express.json.br → "express"; null for anything that isn't a packument
+function packageOf(dir: string, file: string): string | null {
+  const rel = path.relative(dir, file).split(path.sep).join("/");
+  const stem = rel.match(/^(.*)\.json(?:\.br|\.gz)?$/)?.[1];
+  return stem && isValidPackageName(stem) ? stem : null;
+}
+
+async function scanCache(): Promise<{
+  packages: Map<string, CachedPackage>;
+  tarballs: Map<string, FileInfo>;
+}> {
+  const packages = new Map<string, CachedPackage>();
+  for (const dir of [CACHE_DIR, CACHE_CORGI]) {
+    for (const [file, info] of await listFiles(dir)) {
+      const rel = path.relative(CACHE_DIR, file);
+      // tarballs/ is counted below; raw/ only holds documents mid-strip
+      if (dir === CACHE_DIR && /^(tarballs|corgi|raw)\//.test(rel)) continue;
+      const pkg = packageOf(dir, file);
+      if (!pkg) continue;
+      const entry = packages.get(pkg) ?? {
+        files: [],
+        bytes: 0,
+        mtimeMs: 0,
+        tarballs: [],
+      };
+      entry.files.push(file);
+      entry.bytes += info.size;
+      entry.mtimeMs = Math.max(entry.mtimeMs, info.mtimeMs);
+      packages.set(pkg, entry);
+    }
+  }
+
+  const tarballs = await listFiles(TARBALL_DIR);
+  for (const file of tarballs.keys()) {
+    if (path.relative(TARBALL_DIR, file).startsWith("tmp")) {
+      tarballs.delete(file);
+    }
+  }
+  return { packages, tarballs };
+}
+
+// Which stored tarballs each cached packument points at
+async function linkTarballs(
+  packages: Map<string, CachedPackage>,
+  tarballs: Map<string, FileInfo>,
+): Promise<void> {
+  for (const [pkg, entry] of packages) {
+    let versions: Record<string, { dist?: Record<string, string> }>;
+    try {
+      const text = await fsp.readFile(packageFile(CACHE_DIR, pkg), "utf8");
+      versions = JSON.parse(text).versions ?? {};
+    } catch {
+      continue;
+    }
+    for (const { dist } of Object.values(versions)) {
+      const digest = dist && digestFromDist(dist);
+      const file = digest && tarballPath(digest);
+      if (file && tarballs.has(file)) entry.tarballs.push(file);
+    }
+  }
+}
+
+let running = false;
+
+// One pass: measure the cache and, when over budget, remove tarballs no
+// packument points at, then whole packages (packument and tarballs) in
+// least-recently-used order, until back under the low-water mark
+export async function evictOnce(): Promise<void> {
+  if (running) return;
+  running = true;
+  try {
+    const { packages, tarballs } = await scanCache();
+    let total = 0;
+    for (const entry of packages.values()) total += entry.bytes;
+    for (const info of tarballs.values()) total += info.size;
+
+    if (!CACHE_MAX_BYTES || total <= CACHE_MAX_BYTES) {
+      recordCacheSize(total);
+      cacheBytes.set(total);
+      return;
+    }
+
+    const target = CACHE_MAX_BYTES * LOW_WATER;
+    const before = total;
+    await linkTarballs(packages, tarballs);
+
+    // A tarball shared by several packages stays until the last one goes
+    const refs = new Map<string, number>();
+    for (const entry of packages.values()) {
+      for (const file of entry.tarballs) {
+        refs.set(file, (refs.get(file) ?? 0) + 1);
+      }
+    }
+
+    const orphans = [...tarballs]
+      .filter(([file]) => !refs.has(file))
+      .sort(([, a], [, b]) => a.mtimeMs - b.mtimeMs);
+    let orphansRemoved = 0;
+    for (const [file, info] of orphans) {
+      if (total <= target) break;
+      await fsp.rm(file, { force: true });
+      total -= info.size;
+      orphansRemoved++;
+    }
+
+    const accessed = lastAccessTimes();
+    const candidates = [...packages]
+      .filter(([pkg]) => !isPinned(pkg))
+      .map(([pkg, entry]) => ({
+        pkg,
+        entry,
+        lastUsed: accessed.get(pkg) ?? entry.mtimeMs,
+      }))
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+
+    let evicted = 0;
+    for (const { pkg, entry } of candidates) {
+      if (total <= target) break;
+      let freed = entry.bytes;
+      for (const file of entry.files) await fsp.rm(file, { force: true });
+      for (const file of entry.tarballs) {
+        const remaining = refs.get(file)! - 1;
+        refs.set(file, remaining);
+        if (remaining > 0) continue;
+        await fsp.rm(file, { force: true });
+        freed += tarballs.get(file)!.size;
+      }
+      total -= freed;
+      recordEviction(pkg, freed);
+      evictions.inc();
+      console.log(`  🗑 evicted ${pkg} (${freed} bytes)`);
+      evicted++;
+    }
+
+    recordCacheSize(total);
+
+    cacheBytes.set(total);
+    console.log(
+      `evict: ${before} → ${total} bytes (budget ${CACHE_MAX_BYTES}): ${evicted} packages, ${orphansRemoved} orphaned tarballs`,
+    );
+    if (total > CACHE_MAX_BYTES) {
+      console.error("  ✗ cache still over budget: pinned packages exceed it");
+    }
+  } catch (err) {
+    console.error(`  ✗ evict error: ${(err as Error).message}`);
+  } finally {
+    running = false;
+  }
+}
+
+// A pass at startup, then every five minutes; without CACHE_MAX_BYTES the
+// passes only measure the cache for /stats and /-/metrics
+export function startEvictor(): void {
+  evictOnce();
+  setInterval(evictOnce, EVICT_INTERVAL).unref();
+}
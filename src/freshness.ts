@@ -0,0 +1,63 @@
+import { matchesPackage } from "./config.ts";
+import { isLocalPackage } from "./storage.ts";
+
+// How long a cached packument is served before a hit also refreshes it in
+// the background. Sync keeps documents current when it runs; this bounds
+// their age when it doesn't, or falls behind.
+
+const UNITS: Record<string, number> = {
+  "": 1000,
+  s: 1000,
+  m: 60_000,
+  h: 60 * 60_000,
+  d: 24 * 60 * 60_000,
+};
+
+// "30s", "10m", "2h", "1d", "300" (seconds) → ms; 0 when unset (no TTL)
+export function parseDuration(value: string | undefined): number {
+  if (!value) return 0;
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([smhd]?)$/i);
+  if (!match) throw new Error(`cannot parse duration "${value}"`);
+  return Math.floor(Number(match[1]) * UNITS[match[2].toLowerCase()]);
+}
+
+export interface TtlRule {
+  pattern: string;
+  ttlMs: number;
+}
+
+// "@ourco=30s,@types/*=1d" → rules; the first that matches a package wins
+export function parseTtlRules(value: string | undefined): TtlRule[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const eq = entry.lastIndexOf("=");
+      if (eq <= 0) {
+        throw new Error(
+          `CACHE_TTL_RULES: expected pattern=ttl, got "${entry}"`,
+        );
+      }
+      return {
+        pattern: entry.slice(0, eq).trim(),
+        ttlMs: parseDuration(entry.slice(eq + 1)),
+      };
+    });
+}
+
+export const CACHE_TTL_MS = parseDuration(process.env.CACHE_TTL);
+export const CACHE_TTL_RULES = parseTtlRules(process.env.CACHE_TTL_RULES);
+
+// 0: served as long as it's cached
+export function ttlFor(pkg: string): number {
+  const rule = CACHE_TTL_RULES.find((r) => matchesPackage(r.pattern, pkg));
+  return rule ? rule.ttlMs : CACHE_TTL_MS;
+}
+
+// Packages published here are rebuilt from storage, never revalidated
+export function isExpired(pkg: string, mtime: Date): boolean {
+  const ttl = ttlFor(pkg);
+  if (ttl === 0 || isLocalPackage(pkg)) return false;
+  return Date.now() - mtime.getTime() > ttl;
+}
@@ -0,0 +1,243 @@
+// Reading the exact package set out of the lockfiles of npm, pnpm, yarn
+// and bun. Only what comes from a registry is listed: workspace, git, file
+// and URL dependencies are left out.
+
+export type LockfileFormat = "package-lock" | "pnpm-lock" | "yarn" | "bun";
+
+export interface LockedPackage {
+  name: string;
+  version: string;
+  // SRI string, when the lockfile records the registry's own
+  integrity?: string;
+}
+
+export interface Lockfile {
+  format: LockfileFormat;
+  packages: LockedPackage[];
+}
+
+const EXACT_VERSION_RE =
+  /^\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/;
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// "@scope/name@1.0.0" → ["@scope/name", "1.0.0"]; the leading @ of a scope
+// is not the separator
+function splitSpec(spec: string): [string, string] | null {
+  const at = spec.lastIndexOf("@");
+  if (at <= 0) return null;
+  return [spec.slice(0, at), spec.slice(at + 1)];
+}
+
+// package-lock.json v2/v3 lists every install path under "packages"; v1
+// nests "dependencies" instead
+function fromPackageLock(lock: Json): LockedPackage[] {
+  const found: LockedPackage[] = [];
+  const add = (name: string, entry: Json) => {
+    if (entry.link || entry.bundled) return;
+    const resolved = entry.resolved;
+    if (typeof resolved === "string" && !/^https?:/.test(resolved)) return;
+    found.push({
+      // An alias ("node_modules/alias") records the real name
+      name: typeof entry.name === "string" ? entry.name : name,
+      version: String(entry.version),
+      integrity:
+        typeof entry.integrity === "string" ? entry.integrity : undefined,
+    });
+  };
+
+  if (isObject(lock.packages)) {
+    for (const [key, entry] of Object.entries(lock.packages)) {
+      const at = key.lastIndexOf("node_modules/");
+      if (at < 0 || !isObject(entry)) continue;
+      add(key.slice(at + "node_modules/".length), entry);
+    }
+    return found;
+  }
+  const walk = (deps: unknown) => {
+    if (!isObject(deps)) return;
+    for (const [name, entry] of Object.entries(deps)) {
+      if (!isObject(entry)) continue;
+      add(name, entry);
+      walk(entry.dependencies);
+    }
+  };
+  walk(lock.dependencies);
+  return found;
+}
+
+// Keys name a package and version, in a shape that changed over versions:
+// "/name/1.0.0_peer@2.0.0" (v5), "/name@1.0.0(peer@2.0.0)" (v6),
+// "name@1.0.0" (v9)
+function fromPnpmLock(lock: Json): LockedPackage[] {
+  const found: LockedPackage[] = [];
+  if (!isObject(lock.packages)) return found;
+  const legacy = parseFloat(String(lock.lockfileVersion)) < 6;
+
+  for (const [key, entry] of Object.entries(lock.packages)) {
+    const spec = key.replace(/^\//, "").replace(/\(.*$/, "");
+    let parts: [string, string] | null = null;
+    if (!legacy) {
+      parts = splitSpec(spec);
+    } else if (spec.lastIndexOf("/") > 0) {
+      const slash = spec.lastIndexOf("/");
+      parts = [spec.slice(0, slash), spec.slice(slash + 1).split("_")[0]];
+    }
+    if (!parts || !isObject(entry)) continue;
+    const { resolution } = entry;
+    const integrity = isObject(resolution) ? resolution.integrity : undefined;
+    found.push({
+      // An npm alias keeps the real name in the entry
+      name: typeof entry.name === "string" ? entry.name : parts[0],
+      version: parts[1],
+      integrity: typeof integrity === "string" ? integrity : undefined,
+    });
+  }
+  return found;
+}
+
+// Older yarn.lock files only carry the sha1 after the URL's "#"
+function sha1Integrity(resolved: string | undefined): string | undefined {
+  const hex = resolved?.match(/#([0-9a-f]{40})$/i)?.[1];
+  return hex && `sha1-${Buffer.from(hex, "hex").toString("base64")}`;
+}
+
+// Yarn classic: not YAML, though close to it
+//
+//   "@babel/core@^7.0.0", "@babel/core@^7.1.0":
+//     version "7.1.0"
+//     resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.1.0.tgz#…"
+//     integrity sha512-…
+function fromYarnClassic(text: string): LockedPackage[] {
+  const found: LockedPackage[] = [];
+  let descriptor: string | null = null;
+  let fields = new Map<string, string>();
+
+  const flush = () => {
+    const version = fields.get("version");
+    const resolved = fields.get("resolved");
+    // The range may hold an @ of its own, the name only a scope's
+    const at = descriptor?.indexOf("@", 1) ?? -1;
+    if (at < 0 || !version) return;
+    // Tarballs from a registry are at /<name>/-/<file>.tgz
+    if (resolved && !resolved.includes("/-/")) return;
+    // "alias@npm:real@^1" installs real
+    const name = descriptor!.slice(0, at);
+    const range = descriptor!.slice(at + 1);
+    const alias = range.startsWith("npm:")
+      ? splitSpec(range.slice("npm:".length))
+      : null;
+    found.push({
+      name: alias ? alias[0] : name,
+      version,
+      integrity: fields.get("integrity") ?? sha1Integrity(resolved),
+    });
+  };
+
+  for (const line of text.split("\n")) {
+    if (!line.trim() || line.startsWith("#")) continue;
+    if (!line.startsWith(" ")) {
+      flush();
+      // Every descriptor of an entry resolves to the same package
+      descriptor = line
+        .replace(/:$/, "")
+        .split(",")[0]
+        .trim()
+        .replace(/^"|"$/g, "");
+      fields = new Map();
+      continue;
+    }
+    const match = line.match(/^ {2}(\w+) "?([^"]*)"?$/);
+    if (match) fields.set(match[1], match[2]);
+  }
+  flush();
+  return found;
+}
+
+// Yarn berry is YAML; "resolution" names the package and version installed
+function fromYarnBerry(lock: Json): LockedPackage[] {
+  const found: LockedPackage[] = [];
+  for (const [key, entry] of Object.entries(lock)) {
+    if (key === "__metadata" || !isObject(entry)) continue;
+    const resolution = String(entry.resolution ?? "");
+    const npm = resolution.lastIndexOf("@npm:");
+    if (npm <= 0) continue;
+    found.push({
+      name: resolution.slice(0, npm),
+      version: resolution.slice(npm + "@npm:".length),
+    });
+  }
+  return found;
+}
+
+// bun.lock: "packages" maps a key to ["name@version", registry, info,
+// integrity]; workspace and git entries have other version strings
+function fromBunLock(lock: Json): LockedPackage[] {
+  const found: LockedPackage[] = [];
+  if (!isObject(lock.packages)) return found;
+  for (const entry of Object.values(lock.packages)) {
+    if (!Array.isArray(entry) || typeof entry[0] !== "string") continue;
+    const parts = splitSpec(entry[0]);
+    if (!parts) continue;
+    const integrity = entry[3];
+    found.push({
+      name: parts[0],
+      version: parts[1],
+      integrity: typeof integrity === "string" ? integrity : undefined,
+    });
+  }
+  return found;
+}
+
+function detect(text: string): Lockfile {
+  if (text.includes("# yarn lockfile v1")) {
+    return { format: "yarn", packages: fromYarnClassic(text) };
+  }
+  if (text.trimStart().startsWith("{")) {
+    let lock: unknown;
+    try {
+      // bun.lock allows trailing commas
+      lock = Bun.JSONC.parse(text);
+    } catch {
+      throw new Error("not a recognized lockfile: invalid JSON");
+    }
+    if (isObject(lock) && "lockfileVersion" in lock) {
+      const bun =
+        isObject(lock.packages) &&
+        Object.values(lock.packages).some(Array.isArray);
+      return bun
+        ? { format: "bun", packages: fromBunLock(lock) }
+        : { format: "package-lock", packages: fromPackageLock(lock) };
+    }
+    throw new Error("not a recognized lockfile: no lockfileVersion");
+  }
+  let lock: unknown;
+  try {
+    lock = Bun.YAML.parse(text);
+  } catch {
+    throw new Error("not a recognized lockfile");
+  }
+  if (isObject(lock) && isObject(lock.__metadata)) {
+    return { format: "yarn", packages: fromYarnBerry(lock) };
+  }
+  if (isObject(lock) && "lockfileVersion" in lock) {
+    return { format: "pnpm-lock", packages: fromPnpmLock(lock) };
+  }
+  throw new Error("not a recognized lockfile");
+}
+
+// Detects the format from the content; every name@version once
+export function parseLockfile(text: string): Lockfile {
+  const { format, packages } = detect(text);
+  const unique = new Map<string, LockedPackage>();
+  for (const pkg of packages) {
+    if (!EXACT_VERSION_RE.test(pkg.version)) continue;
+    const key = `${pkg.name}@${pkg.version}`;
+    if (!unique.has(key)) unique.set(key, pkg);
+  }
+  return { format, packages: [...unique.values()] };
+}
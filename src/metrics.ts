@@ -0,0 +1,223 @@
+import http from "node:http";
+
+// Counters, gauges and histograms kept in memory and served in the Prometheus
+// text format, or OpenMetrics when the scraper asks for it. They're updated
+// where the events happen, so a scrape only formats numbers: unlike /stats,
+// it never queries the database.
+
+export type Labels = Record<string, string>;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+interface Series {
+  labels: Labels;
+  value: number;
+  // Histograms only: cumulative count per bucket, and the sum observed
+  buckets?: number[];
+  sum?: number;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: MetricType;
+  series: Map<string, Series>;
+  // Histograms only: upper bounds, ascending, without +Inf
+  bounds?: number[];
+  // Gauges read at scrape time instead of being set
+  collect?: () => number;
+}
+
+export interface Counter {
+  inc(labels?: Labels, by?: number): void;
+}
+
+export interface Gauge {
+  set(value: number, labels?: Labels): void;
+}
+
+export interface Histogram {
+  observe(value: number, labels?: Labels): void;
+}
+
+// Prometheus client defaults, in seconds
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const OPENMETRICS_TYPE = "application/openmetrics-text";
+
+const metrics = new Map<string, Metric>();
+
+function register(metric: Metric): Metric {
+  if (metrics.has(metric.name)) {
+    throw new Error(`metric ${metric.name} is already registered`);
+  }
+  metrics.set(metric.name, metric);
+  return metric;
+}
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+// {a="1",b="2"}, or nothing without labels
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([k, v]) => `${k}="${escapeLabel(v)}"`,
+  );
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function seriesFor(metric: Metric, labels: Labels): Series {
+  const key = formatLabels(labels);
+  let series = metric.series.get(key);
+  if (!series) {
+    series = { labels, value: 0 };
+    if (metric.bounds) {
+      series.buckets = metric.bounds.map(() => 0);
+      series.sum = 0;
+    }
+    metric.series.set(key, series);
+  }
+  return series;
+}
+
+// Names end in _total, as both formats expect of a counter's samples. One
+// without labels is reported as 0 before anything happens.
+export function createCounter(
+  name: string,
+  help: string,
+  labelled = false,
+): Counter {
+  if (!name.endsWith("_total")) {
+    throw new Error(`counter ${name} must end in _total`);
+  }
+  const metric = register({ name, help, type: "counter", series: new Map() });
+  if (!labelled) seriesFor(metric, {});
+  return {
+    inc(labels = {}, by = 1) {
+      seriesFor(metric, labels).value += by;
+    },
+  };
+}
+
+export function createGauge(
+  name: string,
+  help: string,
+  collect?: () => number,
+): Gauge {
+  const metric = register({
+    name,
+    help,
+    type: "gauge",
+    series: new Map(),
+    collect,
+  });
+  return {
+    set(value, labels = {}) {
+      seriesFor(metric, labels).value = value;
+    },
+  };
+}
+
+export function createHistogram(
+  name: string,
+  help: string,
+  bounds: number[] = DEFAULT_BUCKETS,
+): Histogram {
+  const metric = register({
+    name,
+    help,
+    type: "histogram",
+    series: new Map(),
+    bounds,
+  });
+  return {
+    observe(value, labels = {}) {
+      const series = seriesFor(metric, labels);
+      for (const [i, bound] of bounds.entries()) {
+        if (value <= bound) series.buckets![i]++;
+      }
+      series.value++;
+      series.sum! += value;
+    },
+  };
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+// In OpenMetrics a counter's family name drops "_total"; its samples keep it.
+// A gauge that was never set has no samples: unknown isn't 0.
+function render(metric: Metric, openMetrics: boolean): string[] {
+  const family =
+    openMetrics && metric.type === "counter"
+      ? metric.name.slice(0, -"_total".length)
+      : metric.name;
+  const help = metric.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+  const lines = [`# HELP ${family} ${help}`, `# TYPE ${family} ${metric.type}`];
+
+  if (metric.collect) {
+    lines.push(`${metric.name} ${formatValue(metric.collect())}`);
+    return lines;
+  }
+  for (const series of metric.series.values()) {
+    if (metric.type !== "histogram") {
+      lines.push(
+        `${metric.name}${formatLabels(series.labels)} ${formatValue(series.value)}`,
+      );
+      continue;
+    }
+    const bounds = [...metric.bounds!, Infinity];
+    const counts = [...series.buckets!, series.value];
+    for (const [i, bound] of bounds.entries()) {
+      const labels = { ...series.labels, le: formatValue(bound) };
+      lines.push(`${metric.name}_bucket${formatLabels(labels)} ${counts[i]}`);
+    }
+    const labels = formatLabels(series.labels);
+    lines.push(`${metric.name}_sum${labels} ${formatValue(series.sum!)}`);
+    lines.push(`${metric.name}_count${labels} ${series.value}`);
+  }
+  return lines;
+}
+
+export function renderMetrics(openMetrics = false): string {
+  const lines = [...metrics.values()].flatMap((m) => render(m, openMetrics));
+  if (openMetrics) lines.push("# EOF");
+  return lines.join("\n") + "\n";
+}
+
+// OpenMetrics for scrapers that accept it, the Prometheus text format
+// otherwise
+export function sendMetrics(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+): void {
+  const openMetrics = (req.headers.accept ?? "").includes(OPENMETRICS_TYPE);
+  const body = renderMetrics(openMetrics);
+  res.writeHead(200, {
+    "content-type": openMetrics
+      ? `${OPENMETRICS_TYPE}; version=1.0.0; charset=utf-8`
+      : "text/plain; version=0.0.4; charset=utf-8",
+    "content-length": Buffer.byteLength(body),
+  });
+  res.end(body);
+}
+
+createGauge(
+  "process_start_time_seconds",
+  "Start time of the process since the Unix epoch, in seconds",
+  () => Math.floor(Date.now() / 1000 - process.uptime()),
+);
+createGauge(
+  "process_resident_memory_bytes",
+  "Resident memory size, in bytes",
+  () => process.memoryUsage.rss(),
+);
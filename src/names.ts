@@ -0,0 +1,188 @@
+import fs from "node:fs";
+import path from "node:path";
+
+// Package names and where they live on disk. Every module that maps a name
+// to a cache file goes through here, so a scoped package has exactly one
+// file whichever way its name was spelled in the request.
+
+const MAX_NAME_LENGTH = 214;
+
+// npm's rules for names that may exist on the registry, including legacy
+// ones with capitals. Returns why a name is invalid, or null.
+export function validatePackageName(name: string): string | null {
+  if (!name) return "name is empty";
+  if (name.length > MAX_NAME_LENGTH) return "name is too long";
+  if (name.trim() !== name) return "name has surrounding whitespace";
+
+  let scope: string | null = null;
+  let bare = name;
+  if (name.startsWith("@")) {
+    const slash = name.indexOf("/");
+    if (slash < 0) return "scoped name has no package part";
+    scope = name.slice(1, slash);
+    bare = name.slice(slash + 1);
+    if (!scope) return "scope is empty";
+  }
+  for (const part of scope === null ? [bare] : [scope, bare]) {
+    if (!part) return "name is empty";
+    if (part.startsWith(".") || part.startsWith("_")) {
+      return "name cannot start with a period or underscore";
+    }
+    if (encodeURIComponent(part) !== part) {
+      return "name contains URL-unsafe characters";
+    }
+  }
+  if (scope === null && (name === "node_modules" || name === "favicon.ico")) {
+    return "name is reserved";
+  }
+  return null;
+}
+
+export function isValidPackageName(name: string): boolean {
+  return validatePackageName(name) === null;
+}
+
+export interface PackagePath {
+  name: string;
+  // Path segments after the name, decoded: ["-", "ui-1.0.0.tgz"], ["4.19.2"]
+  rest: string[];
+}
+
+// "/@ourco%2fui/-rev/3" and "/@ourco/ui/-rev/3" → { name: "@ourco/ui",
+// rest: ["-rev", "3"] }. Null for registry endpoints and invalid names.
+export function parsePackagePath(urlPath: string): PackagePath | null {
+  let segments: string[];
+  try {
+    segments = urlPath
+      .split("?")[0]
+      .split("/")
+      .slice(1)
+      .map((s) => decodeURIComponent(s));
+  } catch {
+    return null;
+  }
+  const [first = "", second] = segments;
+  // "/-/v1/search", "/-/ping": registry endpoints, never a package
+  if (first === "-") return null;
+  let name: string;
+  let rest: string[];
+  if (first.includes("/")) {
+    name = first;
+    rest = segments.slice(1);
+  } else if (first.startsWith("@") && second) {
+    name = `${first}/${second}`;
+    rest = segments.slice(2);
+  } else {
+    name = first;
+    rest = segments.slice(1);
+  }
+  if (!isValidPackageName(name)) return null;
+  // A trailing slash is not a sub-route
+  if (rest.length === 1 && rest[0] === "") rest = [];
+  return { name, rest };
+}
+
+// The path upstream registries expect: "@ourco/ui" → "/@ourco%2fui"
+export function packageUrlPath(name: string): string {
+  return "/" + name.replace("/", "%2f");
+}
+
+// cache/express.json, cache/@ourco/ui.json: one directory per scope
+export function packageFile(dir: string, name: string): string {
+  return path.join(dir, ...name.split("/")) + ".json";
+}
+
+// Per-package directory, for storage that keeps several files per package
+export function packageDir(dir: string, name: string): string {
+  return path.join(dir, ...name.split("/"));
+}
+
+// Every package with a document in `dir`, by name: the inverse of packageFile
+export function listPackageFiles(dir: string): Map<string, string> {
+  const files = new Map<string, string>();
+  const add = (name: string, file: string) => {
+    if (isValidPackageName(name)) files.set(name, file);
+  };
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return files;
+  }
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isFile() && entry.name.endsWith(".json")) {
+      add(entry.name.slice(0, -".json".length), full);
+    } else if (entry.isDirectory() && entry.name.startsWith("@")) {
+      for (const inner of fs.readdirSync(full)) {
+        if (!inner.endsWith(".json")) continue;
+        const bare = inner.slice(0, -".json".length);
+        add(`${entry.name}/${bare}`, path.join(full, inner));
+      }
+    }
+  }
+  return files;
+}
+
+// One-time move from the old layout, where the file name was the raw
+// request path ("@ourco%2fui.json", "express/4.19.2.json"). Anything that
+// doesn't map to a package is dropped; where both spellings of a scoped
+// package were cached the newer wins. Subdirectories named in `keep` are
+// left alone. Returns the number of entries moved or removed.
+export function migratePackageFiles(dir: string, keep: string[] = []): number {
+  if (!fs.existsSync(dir)) return 0;
+  let changed = 0;
+
+  const drop = (file: string) => {
+    fs.rmSync(file, { recursive: true, force: true });
+    changed++;
+  };
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    if (entry.name.startsWith(".") || keep.includes(entry.name)) continue;
+
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith("@")) {
+        drop(full);
+        continue;
+      }
+      // A scope directory holds only package files
+      for (const inner of fs.readdirSync(full, { withFileTypes: true })) {
+        const stem = inner.name.match(/^(.*)\.json(?:\.br|\.gz)?$/)?.[1];
+        const valid =
+          inner.isFile() &&
+          stem !== undefined &&
+          isValidPackageName(`${entry.name}/${stem}`);
+        if (!valid && !inner.name.startsWith(".")) {
+          drop(path.join(full, inner.name));
+        }
+      }
+      continue;
+    }
+
+    const match = entry.name.match(/^(.*)\.json(\.br|\.gz)?$/);
+    if (!match) continue;
+    const [, stem, suffix = ""] = match;
+    let name = "";
+    try {
+      name = decodeURIComponent(stem);
+    } catch {}
+    if (!isValidPackageName(name)) {
+      drop(full);
+      continue;
+    }
+    if (name === stem) continue;
+
+    const dest = packageFile(dir, name) + suffix;
+    const existing = fs.statSync(dest, { throwIfNoEntry: false });
+    if (existing && existing.mtimeMs >= fs.statSync(full).mtimeMs) {
+      drop(full);
+      continue;
+    }
+    fs.mkdirSync(path.dirname(dest), { recursive: true });
+    fs.renameSync(full, dest);
+    changed++;
+  }
+  return changed;
+}
@@ -1,25 +1,39 @@
-import fs from "node:fs";
 import fsp from "node:fs/promises";
-import path from "node:path";
-import { fileURLToPath } from "node:url";
-import { stripMetadata, type NpmPackageMetadata } from "./strip.ts";
+import type { NpmPackageMetadata, NpmVersionEntry } from "./strip.ts";
 import { recordPrefetch } from "./stats.ts";
-
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const CACHE_DIR = path.join(__dirname, "..", "cache");
-const REGISTRY = "https://registry.npmjs.org";
+import { writePackument, CACHE_DIR } from "./cache.ts";
+import { createGauge } from "./metrics.ts";
+import { fetchPackument } from "./upstream.ts";
+import { isLocalPackage } from "./storage.ts";
+import { packageFile, packageUrlPath, isValidPackageName } from "./names.ts";
+import {
+  resolveVersion,
+  installedDependencies,
+  type VersionedDocument,
+} from "./versions.ts";
 
 const MAX_CONCURRENT = 5;
+// Packages fetched per tree, and packuments looked at in all
 const MAX_PREFETCH = 200;
+const MAX_TREE = 2000;
 
-// Cross-request dedup: packages currently being fetched
-const inflight = new Set<string>();
-
-// Semaphore for concurrency control
+// Semaphore for concurrency control, shared by every kind of prefetch so
+// together they never hold more than MAX_CONCURRENT upstream fetches
 let activeCount = 0;
 const waiting: (() => void)[] = [];
 
-function acquire(): Promise<void> {
+createGauge(
+  "upm_prefetch_queue_depth",
+  "Prefetches waiting for a free upstream slot",
+  () => waiting.length,
+);
+createGauge(
+  "upm_prefetch_active",
+  "Prefetches fetching from upstream",
+  () => activeCount,
+);
+
+export function acquire(): Promise<void> {
   if (activeCount < MAX_CONCURRENT) {
     activeCount++;
     return Promise.resolve();
@@ -32,56 +46,35 @@ function acquire(): Promise<void> {
   });
 }
 
-function release(): void {
+export function release(): void {
   activeCount--;
   const next = waiting.shift();
   if (next) next();
 }
 
-function cachePath(pkgName: string): string {
-  return path.join(CACHE_DIR, pkgName.replace("/", "%2f") + ".json");
-}
-
-function extractDeps(data: NpmPackageMetadata): string[] {
-  const latest = data["dist-tags"]?.latest;
-  if (!latest) return [];
-  const entry = data.versions[latest];
-  if (!entry) return [];
-
-  const deps = new Set<string>();
-  for (const field of [
-    "dependencies",
-    "optionalDependencies",
-    "peerDependencies",
-  ] as const) {
-    const map = entry[field];
-    if (map) {
-      for (const name of Object.keys(map)) deps.add(name);
-    }
-  }
-  return [...deps];
-}
-
-async function fetchAndCache(
+// Fetch a packument and cache it; null when it isn't available
+export async function fetchAndCache(
   pkgName: string,
 ): Promise<NpmPackageMetadata | null> {
   try {
-    const res = await fetch(`${REGISTRY}/${pkgName}`, {
-      headers: { accept: "application/json" },
-    });
-    if (!res.ok) {
+    // Shares the fetch with any proxy miss for the same package
+    const { response, leader } = fetchPackument(
+      pkgName,
+      packageUrlPath(pkgName),
+    );
+    const res = await response;
+    if (res.status !== 200) {
       console.error(`  ✗ prefetch ${pkgName}: ${res.status}`);
       return null;
     }
-    const data = (await res.json()) as NpmPackageMetadata;
+    const raw = res.body.toString("utf8");
+    const data = JSON.parse(raw) as NpmPackageMetadata;
     if (!data.versions || !data["dist-tags"]) return null;
 
-    const raw = JSON.stringify(data);
-    const stripped = JSON.stringify(stripMetadata(data));
-    const dest = cachePath(pkgName);
+    // Whoever started the fetch caches it
+    if (!leader) return data;
 
-    await fsp.mkdir(path.dirname(dest), { recursive: true });
-    await fsp.writeFile(dest, stripped);
+    const { stripped } = await writePackument(data);
 
     recordPrefetch(
       pkgName,
@@ -96,61 +89,91 @@ async function fetchAndCache(
   }
 }
 
-async function prefetchTree(rootData: NpmPackageMetadata): Promise<void> {
-  const visited = new Set<string>();
-  visited.add(rootData.name);
-  let count = 0;
-
-  const queue: NpmPackageMetadata[] = [rootData];
+// Just what resolving dependencies needs, so a large tree's packuments
+// aren't all held in memory at once
+function slim(data: VersionedDocument): VersionedDocument {
+  const versions: Record<string, NpmVersionEntry> = {};
+  for (const [version, entry] of Object.entries(data.versions ?? {})) {
+    versions[version] = {
+      dependencies: entry.dependencies,
+      optionalDependencies: entry.optionalDependencies,
+      peerDependencies: entry.peerDependencies,
+      peerDependenciesMeta: entry.peerDependenciesMeta,
+    };
+  }
+  return { "dist-tags": data["dist-tags"], versions };
+}
 
-  while (queue.length > 0) {
-    const current = queue.shift()!;
-    const depNames = extractDeps(current);
+// Walk the dependency tree of the requested version of `root`, resolving
+// each range against its packument: uncached ones are fetched (and cached)
+// up to MAX_PREFETCH, and walked in turn
+async function prefetchTree(
+  root: NpmPackageMetadata,
+  spec: string,
+): Promise<void> {
+  const rootVersion = resolveVersion(root, spec);
+  if (!rootVersion) return;
+
+  const docs = new Map<string, Promise<VersionedDocument | null>>();
+  docs.set(root.name, Promise.resolve(slim(root)));
+  let count = 0;
 
-    const toFetch: string[] = [];
-    for (const name of depNames) {
-      if (visited.has(name)) continue;
-      visited.add(name);
-      if (fs.existsSync(cachePath(name))) continue;
-      if (inflight.has(name)) continue;
-      if (count >= MAX_PREFETCH) break;
-      toFetch.push(name);
+  const load = (name: string): Promise<VersionedDocument | null> => {
+    let doc = docs.get(name);
+    if (doc) return doc;
+    if (docs.size >= MAX_TREE) return Promise.resolve(null);
+    doc = (async () => {
+      // Dependency names come from published manifests; don't trust them
+      if (!isValidPackageName(name)) return null;
+      // Cached packages end the walk: their dependencies were most likely
+      // fetched along with them, and parsing every cached packument of a
+      // large tree on each miss costs more than the odd fetch it saves
+      const cached = await fsp
+        .stat(packageFile(CACHE_DIR, name))
+        .catch(() => null);
+      if (cached || isLocalPackage(name) || count >= MAX_PREFETCH) return null;
       count++;
-    }
-
-    if (count >= MAX_PREFETCH) break;
-
-    const results = await Promise.all(
-      toFetch.map(async (name) => {
-        inflight.add(name);
-        try {
-          await acquire();
-          try {
-            if (fs.existsSync(cachePath(name))) return null;
-            return await fetchAndCache(name);
-          } finally {
-            release();
-          }
-        } finally {
-          inflight.delete(name);
-        }
+      await acquire();
+      try {
+        const data = await fetchAndCache(name);
+        return data && slim(data);
+      } finally {
+        release();
+      }
+    })();
+    docs.set(name, doc);
+    return doc;
+  };
+
+  // Each name@version is walked once, however many dependents it has
+  const walked = new Set([`${root.name}@${rootVersion}`]);
+  let level = [root.versions[rootVersion]];
+  while (level.length > 0) {
+    const next = await Promise.all(
+      level.flatMap(installedDependencies).map(async ({ name, spec }) => {
+        const doc = await load(name);
+        const version = doc && resolveVersion(doc, spec);
+        if (!version || walked.has(`${name}@${version}`)) return null;
+        walked.add(`${name}@${version}`);
+        return doc.versions![version];
       }),
     );
-
-    for (const metadata of results) {
-      if (metadata) queue.push(metadata);
-    }
+    level = next.filter((entry) => entry !== null);
   }
 
   if (count > 0) {
     console.log(
-      `  ✓ prefetch complete: ${count} packages for ${rootData.name}`,
+      `  ✓ prefetch complete: ${count} packages for ${root.name}@${rootVersion}`,
     );
   }
 }
 
-export function prefetchDeps(data: NpmPackageMetadata): void {
-  prefetchTree(data).catch((err) => {
+// `spec` is the version or range the client asked for
+export function prefetchDeps(
+  data: NpmPackageMetadata,
+  spec: string = "latest",
+): void {
+  prefetchTree(data, spec).catch((err) => {
     console.error(`  ✗ prefetch tree error: ${(err as Error).message}`);
   });
 }
@@ -0,0 +1,234 @@
+import http from "node:http";
+import { rewriteTarballUrls } from "./strip.ts";
+import { parsePackagePath, packageUrlPath } from "./names.ts";
+import { matchesPackage } from "./config.ts";
+import { OFFLINE, fetchPackument } from "./upstream.ts";
+import { userExists, type TokenInfo } from "./users.ts";
+import {
+  publishVersion,
+  updatePackument,
+  unpublishPackage,
+  setDistTag,
+  removeDistTag,
+  readLocalPackument,
+  isLocalPackage,
+  RegistryError,
+  type PublishBody,
+} from "./storage.ts";
+
+// Publish bodies carry the tarball base64-encoded
+const MAX_BODY_BYTES = 100 * 1024 * 1024;
+
+// Comma-separated package patterns ("@ourco,internal-*") that may be
+// published here even when upstream has a package by that name
+export const LOCAL_PACKAGES = (process.env.LOCAL_PACKAGES ?? "")
+  .split(",")
+  .map((p) => p.trim())
+  .filter(Boolean);
+
+export interface LocalRoute {
+  pkg: string;
+  // Path segments after the package name, e.g. ["-rev", "3-abc"]
+  rest: string[];
+  // Tag for /-/package/:pkg/dist-tags[/:tag]
+  distTags?: { tag: string | null };
+}
+
+// "/@ourco%2fui/-rev/3-abc" → { pkg: "@ourco/ui", rest: ["-rev", "3-abc"] }
+// "/-/package/@ourco%2fui/dist-tags/beta" → { pkg, rest: [], distTags }
+export function parseLocalRoute(url: string): LocalRoute | null {
+  const p = url.split("?")[0];
+  const isDistTags = p.startsWith("/-/package/");
+  if (!isDistTags && p.startsWith("/-/")) return null;
+  const parsed = parsePackagePath(
+    isDistTags ? p.slice("/-/package".length) : p,
+  );
+  if (!parsed) return null;
+
+  const { name: pkg, rest } = parsed;
+  if (!isDistTags) return { pkg, rest };
+  if (rest[0] !== "dist-tags") return null;
+  return { pkg, rest: [], distTags: { tag: rest[1] ?? null } };
+}
+
+export function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  value: unknown,
+): void {
+  const body = JSON.stringify(value);
+  res.writeHead(status, {
+    "content-type": "application/json",
+    "content-length": Buffer.byteLength(body),
+  });
+  res.end(body);
+}
+
+export async function readJsonBody(
+  req: http.IncomingMessage,
+): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RegistryError(413, "request body too large");
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new RegistryError(400, "request body is not valid JSON");
+  }
+}
+
+// Reads npm makes against packages published here before writing back
+export async function handleLocalRead(
+  id: string,
+  route: LocalRoute,
+  baseUrl: string,
+  clientRes: http.ServerResponse,
+): Promise<void> {
+  const doc = await readLocalPackument(route.pkg);
+  if (!doc) {
+    sendJson(clientRes, 404, { error: "not found" });
+    return;
+  }
+  console.log(`  ← ${id} LOCAL ${route.pkg}`);
+  if (route.distTags) {
+    sendJson(clientRes, 200, doc["dist-tags"]);
+    return;
+  }
+  // ?write=true: the full document with _rev, as npm expects to send back
+  const body = rewriteTarballUrls(JSON.stringify(doc), baseUrl);
+  clientRes.writeHead(200, {
+    "content-type": "application/json",
+    "content-length": Buffer.byteLength(body),
+    "cache-control": "no-cache",
+  });
+  clientRes.end(body);
+}
+
+// Once a name is published here, upstream is never asked about it again. A
+// first publish may not take over a name upstream serves, unless
+// LOCAL_PACKAGES claims it.
+async function checkUnclaimed(pkg: string): Promise<void> {
+  if (LOCAL_PACKAGES.some((pattern) => matchesPackage(pattern, pkg))) return;
+  if (OFFLINE) {
+    throw new RegistryError(
+      503,
+      `cannot check whether upstream has ${pkg} in offline mode`,
+    );
+  }
+  let status: number;
+  try {
+    ({ status } = await fetchPackument(pkg, packageUrlPath(pkg)).response);
+  } catch (err) {
+    throw new RegistryError(
+      502,
+      `cannot check whether upstream has ${pkg}: ${(err as Error).message}`,
+    );
+  }
+  if (status === 200) {
+    throw new RegistryError(403, `${pkg} already exists upstream`);
+  }
+  if (status !== 404) {
+    throw new RegistryError(
+      502,
+      `cannot check whether upstream has ${pkg}: upstream ${status}`,
+    );
+  }
+}
+
+// npm owner add/rm sends the maintainers back; each must be a user here
+function checkOwnersExist(body: PublishBody): void {
+  if (!Array.isArray(body.maintainers)) return;
+  for (const maintainer of body.maintainers) {
+    const name = maintainer?.name;
+    if (typeof name === "string" && !userExists(name)) {
+      throw new RegistryError(404, `no such user ${name}`);
+    }
+  }
+}
+
+// Every write to a package name is handled here, never forwarded upstream.
+// Writes are made as a user, who must be one of the package's maintainers.
+export async function handleLocalWrite(
+  id: string,
+  route: LocalRoute,
+  identity: TokenInfo | null,
+  clientReq: http.IncomingMessage,
+  clientRes: http.ServerResponse,
+): Promise<void> {
+  const { pkg, rest } = route;
+  const method = clientReq.method;
+  try {
+    if (!identity) {
+      throw new RegistryError(401, `authentication required to write ${pkg}`);
+    }
+    const { username } = identity;
+
+    if (route.distTags) {
+      const tag = route.distTags.tag;
+      if (!tag) throw new RegistryError(405, "method not allowed");
+      if (method === "PUT" || method === "POST") {
+        const version = await readJsonBody(clientReq);
+        if (typeof version !== "string") {
+          throw new RegistryError(400, "expected a version string");
+        }
+        await setDistTag(pkg, tag, version, username);
+        console.log(`  🏷 ${pkg}@${tag} → ${version}`);
+      } else if (method === "DELETE") {
+        await removeDistTag(pkg, tag, username);
+        console.log(`  🏷 ${pkg}@${tag} removed`);
+      } else {
+        throw new RegistryError(405, "method not allowed");
+      }
+      sendJson(clientRes, 200, { ok: true });
+      return;
+    }
+
+    const rev = rest[0] === "-rev" ? (rest[1] ?? null) : null;
+
+    // PUT /:pkg (publish or deprecate) and PUT /:pkg/-rev/:rev (unpublish
+    // of some versions)
+    if (method === "PUT" && (rest.length === 0 || rest[0] === "-rev")) {
+      const body = (await readJsonBody(clientReq)) as PublishBody;
+      if (body._attachments && Object.keys(body._attachments).length > 0) {
+        if (!isLocalPackage(pkg)) await checkUnclaimed(pkg);
+        const doc = await publishVersion(pkg, body, username);
+        const version = Object.keys(body.versions ?? {})[0];
+        console.log(`  📦 ${id} published ${pkg}@${version}`);
+        sendJson(clientRes, 201, { ok: true, id: pkg, rev: doc._rev });
+        return;
+      }
+      checkOwnersExist(body);
+      const doc = await updatePackument(pkg, rev, body, username);
+      console.log(`  ✎ ${id} updated ${pkg}`);
+      sendJson(clientRes, 200, { ok: true, id: pkg, rev: doc?._rev });
+      return;
+    }
+
+    // DELETE /:pkg/-rev/:rev removes the whole package
+    if (method === "DELETE" && rest[0] === "-rev") {
+      await unpublishPackage(pkg, rev, username);
+      sendJson(clientRes, 200, { ok: true });
+      return;
+    }
+
+    // DELETE /:pkg/-/:file/-rev/:rev follows a version unpublish; the
+    // tarball went with the version
+    if (method === "DELETE" && rest[0] === "-") {
+      sendJson(clientRes, 200, { ok: true });
+      return;
+    }
+
+    throw new RegistryError(405, "method not allowed");
+  } catch (err) {
+    const status = err instanceof RegistryError ? err.status : 500;
+    const message = (err as Error).message;
+    console.error(`  ✗ ${id} ${method} ${pkg}: ${message}`);
+    if (!clientRes.headersSent) sendJson(clientRes, status, { error: message });
+  }
+}
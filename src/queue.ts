@@ -0,0 +1,265 @@
+import { Database } from "bun:sqlite";
+import fs from "node:fs";
+import path from "node:path";
+import { hitCounts, DATA_DIR } from "./stats.ts";
+
+// The sync work queue. Changes from the feed are stored here in the same
+// transaction that advances the feed position, so a crash or a failed
+// fetch can't lose one: a package leaves the queue only once refreshed.
+
+// Where the feed position lived before it moved into the database
+const LEGACY_SEQ_FILE = path.join(DATA_DIR, ".sync-seq");
+
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 60 * 60_000;
+// After this many failures a package waits for its next change instead
+const MAX_ATTEMPTS = 10;
+
+fs.mkdirSync(DATA_DIR, { recursive: true });
+const db = new Database(path.join(DATA_DIR, "stats.db"), { create: true });
+db.exec("PRAGMA journal_mode = WAL");
+db.exec("PRAGMA busy_timeout = 5000");
+db.exec(`
+  CREATE TABLE IF NOT EXISTS sync_queue (
+    package      TEXT    PRIMARY KEY,
+    deleted      INTEGER NOT NULL DEFAULT 0,
+    priority     INTEGER NOT NULL DEFAULT 0,
+    attempts     INTEGER NOT NULL DEFAULT 0,
+    next_attempt INTEGER NOT NULL DEFAULT 0,
+    last_error   TEXT,
+    generation   INTEGER NOT NULL DEFAULT 0,
+    enqueued_at  TEXT    NOT NULL DEFAULT (datetime('now')),
+    revalidate   INTEGER NOT NULL DEFAULT 0
+  )
+`);
+// Queues created before reconciliation existed lack the column
+const queueColumns = db.query("PRAGMA table_info(sync_queue)").all() as {
+  name: string;
+}[];
+if (!queueColumns.some((c) => c.name === "revalidate")) {
+  db.exec(
+    "ALTER TABLE sync_queue ADD COLUMN revalidate INTEGER NOT NULL DEFAULT 0",
+  );
+}
+db.exec(`
+  CREATE TABLE IF NOT EXISTS sync_state (
+    key   TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  )
+`);
+
+// A later change to a queued package replaces the pending one and starts
+// its retries over; the generation tells a worker its claim went stale
+const upsertItem = db.query(`
+  INSERT INTO sync_queue (package, deleted, priority)
+  VALUES ($package, $deleted, $priority)
+  ON CONFLICT (package) DO UPDATE SET
+    deleted = excluded.deleted,
+    revalidate = 0,
+    priority = excluded.priority,
+    attempts = 0,
+    next_attempt = 0,
+    last_error = NULL,
+    generation = generation + 1,
+    enqueued_at = datetime('now')
+`);
+// A queued change already implies a full refresh, which beats revalidating
+const insertRevalidation = db.query(`
+  INSERT INTO sync_queue (package, revalidate, priority)
+  VALUES ($package, 1, $priority)
+  ON CONFLICT (package) DO NOTHING
+`);
+const selectDue = db.query(`
+  SELECT package, deleted, revalidate, attempts, generation
+  FROM sync_queue
+  WHERE next_attempt <= $now
+  ORDER BY priority DESC, enqueued_at ASC
+  LIMIT $limit
+`);
+const deleteItem = db.query(
+  "DELETE FROM sync_queue WHERE package = $package AND generation = $generation",
+);
+const updateRetry = db.query(`
+  UPDATE sync_queue
+  SET attempts = $attempts, next_attempt = $nextAttempt, last_error = $error
+  WHERE package = $package AND generation = $generation
+`);
+const selectState = db.query("SELECT value FROM sync_state WHERE key = $key");
+const upsertState = db.query(`
+  INSERT INTO sync_state (key, value) VALUES ($key, $value)
+  ON CONFLICT (key) DO UPDATE SET value = excluded.value
+`);
+const deleteState = db.query("DELETE FROM sync_state WHERE key = $key");
+const countRevalidations = db.query(
+  "SELECT COUNT(*) as count FROM sync_queue WHERE revalidate = 1",
+);
+
+export interface QueueItem {
+  pkg: string;
+  deleted: boolean;
+  // Part of a reconciliation pass: refresh only if upstream has moved on
+  revalidate: boolean;
+  attempts: number;
+  generation: number;
+}
+
+export interface QueuedChange {
+  pkg: string;
+  deleted: boolean;
+}
+
+interface QueueRow {
+  package: string;
+  deleted: number;
+  revalidate: number;
+  attempts: number;
+  generation: number;
+}
+
+function readState(key: string): string | null {
+  const row = selectState.get({ $key: key }) as { value: string } | null;
+  return row?.value ?? null;
+}
+
+export interface SyncState {
+  // Feed position everything before has been queued; null when unknown
+  seq: string | null;
+  // Position to resume from once a reconciliation pass finishes
+  reconcileSeq: string | null;
+  // Last successful poll (epoch ms)
+  polledAt: number | null;
+  // Most recent poll or refresh failure, kept across restarts
+  lastError: { message: string; at: number } | null;
+}
+
+export function readSyncState(): SyncState {
+  let seq = readState("seq");
+  if (seq === null) {
+    try {
+      seq = fs.readFileSync(LEGACY_SEQ_FILE, "utf8").trim() || null;
+    } catch {}
+  }
+  const polledAt = readState("polled_at");
+  const lastError = readState("last_error");
+  return {
+    seq,
+    reconcileSeq: readState("reconcile_seq"),
+    polledAt: polledAt === null ? null : Number(polledAt),
+    lastError:
+      lastError === null
+        ? null
+        : { message: lastError, at: Number(readState("last_error_at")) },
+  };
+}
+
+export const recordSyncError = db.transaction((message: string) => {
+  upsertState.run({ $key: "last_error", $value: message });
+  upsertState.run({ $key: "last_error_at", $value: String(Date.now()) });
+});
+
+// Large IN lists are split to stay under SQLite's variable limit
+function priorities(pkgs: string[]): Map<string, number> {
+  const hits = new Map<string, number>();
+  for (let i = 0; i < pkgs.length; i += 500) {
+    for (const [pkg, count] of hitCounts(pkgs.slice(i, i + 500))) {
+      hits.set(pkg, count);
+    }
+  }
+  return hits;
+}
+
+// Queue a page of changes and move the feed position past it, atomically.
+// Hot packages (by cache hits) are refreshed first.
+export const enqueueChanges = db.transaction(
+  (changes: QueuedChange[], lastSeq: string) => {
+    const hits = priorities(changes.map((c) => c.pkg));
+    for (const change of changes) {
+      upsertItem.run({
+        $package: change.pkg,
+        $deleted: change.deleted ? 1 : 0,
+        $priority: hits.get(change.pkg) ?? 0,
+      });
+    }
+    upsertState.run({ $key: "seq", $value: lastSeq });
+    upsertState.run({ $key: "polled_at", $value: String(Date.now()) });
+  },
+);
+
+// Start a reconciliation pass: revalidate every package given, and resume
+// the feed at `targetSeq` only once all of them are done. Until then the
+// stored position is left alone, so a restart picks the pass up again.
+export const beginReconcile = db.transaction(
+  (pkgs: string[], targetSeq: string) => {
+    const hits = priorities(pkgs);
+    for (const pkg of pkgs) {
+      insertRevalidation.run({ $package: pkg, $priority: hits.get(pkg) ?? 0 });
+    }
+    upsertState.run({ $key: "reconcile_seq", $value: targetSeq });
+  },
+);
+
+export function pendingRevalidations(): number {
+  return (countRevalidations.get() as { count: number }).count;
+}
+
+// Adopt the pass's target position; false while revalidations remain
+export const finishReconcile = db.transaction((): boolean => {
+  const target = readState("reconcile_seq");
+  if (target === null || pendingRevalidations() > 0) return false;
+  upsertState.run({ $key: "seq", $value: target });
+  upsertState.run({ $key: "polled_at", $value: String(Date.now()) });
+  deleteState.run({ $key: "reconcile_seq" });
+  return true;
+});
+
+// Items ready to run, highest priority first; `skip` holds packages a
+// worker already has in hand
+export function dueItems(limit: number, skip: Set<string>): QueueItem[] {
+  const rows = selectDue.all({
+    $now: Date.now(),
+    $limit: limit + skip.size,
+  }) as QueueRow[];
+  return rows
+    .filter((row) => !skip.has(row.package))
+    .slice(0, limit)
+    .map((row) => ({
+      pkg: row.package,
+      deleted: row.deleted === 1,
+      revalidate: row.revalidate === 1,
+      attempts: row.attempts,
+      generation: row.generation,
+    }));
+}
+
+export function completeItem(item: QueueItem): void {
+  deleteItem.run({ $package: item.pkg, $generation: item.generation });
+}
+
+// Back off exponentially; returns false once the item has been given up on
+export function retryItem(item: QueueItem, error: string): boolean {
+  const attempts = item.attempts + 1;
+  if (attempts >= MAX_ATTEMPTS) {
+    completeItem(item);
+    return false;
+  }
+  const delay = Math.min(RETRY_BASE_MS * 2 ** item.attempts, RETRY_MAX_MS);
+  updateRetry.run({
+    $package: item.pkg,
+    $generation: item.generation,
+    $attempts: attempts,
+    $nextAttempt: Date.now() + delay,
+    $error: error,
+  });
+  return true;
+}
+
+export function queueLength(): { pending: number; retrying: number } {
+  return db
+    .query(
+      `SELECT
+        COUNT(*) as pending,
+        COALESCE(SUM(CASE WHEN attempts > 0 THEN 1 ELSE 0 END), 0) as retrying
+      FROM sync_queue`,
+    )
+    .get() as { pending: number; retrying: number };
+}
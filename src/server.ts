@@ -1,83 +1,330 @@
 import http from "node:http";
-import https from "node:https";
+import crypto from "node:crypto";
 import fs from "node:fs";
 import fsp from "node:fs/promises";
 import path from "node:path";
-import zlib from "node:zlib";
-import { promisify } from "node:util";
-import { fileURLToPath } from "node:url";
-import { stripMetadata, type NpmPackageMetadata } from "./strip.ts";
+import {
+  stripMetadata,
+  abbreviateMetadata,
+  acceptsAbbreviated,
+  rewriteTarballUrls,
+  ABBREVIATED_CONTENT_TYPE,
+  STRIP_PROFILE,
+  type NpmPackageMetadata,
+} from "./strip.ts";
 import {
   recordHit,
   recordMiss,
   recordStrip,
   recordPassthrough,
+  recordNotModified,
+  recordTarballHit,
 } from "./stats.ts";
 import { prefetchDeps } from "./prefetch.ts";
+import { createCounter, createHistogram, sendMetrics } from "./metrics.ts";
+import {
+  compress,
+  negotiateEncoding,
+  readCompressedSibling,
+  siblingBaseUrl,
+  type ContentEncoding,
+} from "./encoding.ts";
+import {
+  parseTarballUrl,
+  digestFromDist,
+  tarballPath,
+  fetchTarball,
+  type TarballRef,
+  type TarballDigest,
+} from "./tarballs.ts";
+import {
+  fetchPackument,
+  isFetching,
+  openUpstream,
+  upstreamHealth,
+  OFFLINE,
+  type PackumentResponse,
+} from "./upstream.ts";
+import {
+  UPSTREAMS,
+  UPSTREAMS_SOURCE,
+  ACCESS_RULES,
+  ACCESS_SOURCE,
+} from "./config.ts";
+import {
+  parsePackagePath,
+  packageFile,
+  packageUrlPath,
+  listPackageFiles,
+  migratePackageFiles,
+} from "./names.ts";
+import {
+  writePackument,
+  removePackument,
+  touchPackument,
+  packumentProblem,
+  CACHE_DIR,
+  CACHE_CORGI,
+  CACHE_RAW,
+  cacheRequests,
+} from "./cache.ts";
+import { writeFileAtomic } from "./atomic.ts";
+import {
+  isLocalPackage,
+  readLocalPackument,
+  cacheLocalPackument,
+  localTarballPath,
+} from "./storage.ts";
+import {
+  parseLocalRoute,
+  sendJson,
+  handleLocalRead,
+  handleLocalWrite,
+} from "./publish.ts";
+import {
+  authenticate,
+  isAllowed,
+  deny,
+  isUserRoute,
+  handleUserRequest,
+} from "./auth.ts";
+import { resolveVersion, type VersionedDocument } from "./versions.ts";
+import { startEvictor, CACHE_MAX_BYTES, CACHE_PINNED } from "./evict.ts";
+import { isExpired, CACHE_TTL_MS, CACHE_TTL_RULES } from "./freshness.ts";
+import {
+  startSync,
+  isSyncRoute,
+  handleSyncRequest,
+  SYNC_IN_PROCESS,
+} from "./sync.ts";
+import {
+  isPrefetchRoute,
+  handlePrefetchRequest,
+  startWarmer,
+  WARM_TOP,
+  WARM_SEED_FILE,
+} from "./warm.ts";
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const CACHE_DIR = path.join(__dirname, "..", "cache");
-const CACHE_RAW = path.join(__dirname, "..", "cache", "raw");
-const UPSTREAM = "registry.npmjs.org";
+const PROFILE_FILE = path.join(CACHE_DIR, ".strip-profile");
+const SIBLING_BASE_FILE = path.join(CACHE_DIR, ".sibling-base");
+const LAYOUT_FILE = path.join(CACHE_DIR, ".layout");
+// Bump when the mapping from package names to cache files changes
+const CACHE_LAYOUT = "2";
 const PORT = Number(process.env.PORT) || 4873;
+// Base URL clients should use to reach this proxy; derived per request if unset
+const PUBLIC_URL = process.env.PUBLIC_URL?.replace(/\/+$/, "");
 
 fs.mkdirSync(CACHE_DIR, { recursive: true });
+invalidateStaleProfile();
+migrateCacheLayout();
+invalidateStaleSiblings();
 fs.mkdirSync(CACHE_RAW, { recursive: true });
+fs.mkdirSync(CACHE_CORGI, { recursive: true });
+recoverStaged().catch((err) =>
+  console.error(`  ✗ staged recovery error: ${err.message}`),
+);
+
+const VARY = "accept, accept-encoding";
+// Optional request header naming the version or range a client is about to
+// install, so a miss prefetches that version's dependencies, not latest's
+const PREFETCH_HINT = "x-prefetch-range";
+
+// Not forwarded on packument fetches: upstream.ts sets its own, and a
+// conditional or connection-scoped header from one client must not shape
+// a response shared with others
+const HOP_HEADERS = [
+  "host",
+  "connection",
+  "keep-alive",
+  "accept",
+  "accept-encoding",
+  "content-length",
+  "if-none-match",
+  "if-modified-since",
+  "x-prefetch-range",
+];
 
-const brotliDecompress = promisify(zlib.brotliDecompress);
-const gunzip = promisify(zlib.gunzip);
-const inflate = promisify(zlib.inflate);
+// Requests answered straight from upstream, never cached, and how much of
+// each fetched document stripping keeps
+const passthroughRequests = createCounter(
+  "upm_passthrough_requests_total",
+  "Requests relayed to upstream as-is",
+);
+const stripRatio = createHistogram(
+  "upm_strip_ratio",
+  "Size of a stripped package document relative to upstream's",
+  [0.05, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1],
+);
 
 let counter = 0;
 
-function pkgCachePath(dir: string, url: string): string {
-  const name = url.replace(/^\//, "");
-  return path.join(dir, name + ".json");
+// Documents stripped under another profile may lack fields clients rely on.
+// Drop every cached packument so they are rebuilt on demand; tarballs are
+// content-addressed and unaffected.
+function invalidateStaleProfile(): void {
+  const expected = String(STRIP_PROFILE.version);
+  let current: string | null = null;
+  try {
+    current = fs.readFileSync(PROFILE_FILE, "utf8").trim();
+  } catch {}
+  if (current === expected) return;
+
+  let removed = 0;
+  for (const entry of fs.readdirSync(CACHE_DIR)) {
+    if (entry === "tarballs" || entry.startsWith(".")) continue;
+    fs.rmSync(path.join(CACHE_DIR, entry), { recursive: true, force: true });
+    removed++;
+  }
+  fs.writeFileSync(PROFILE_FILE, expected);
+  console.log(
+    `strip profile ${current ?? "none"} → ${expected}: invalidated ${removed} cache entries`,
+  );
 }
 
-async function decompress(
-  buf: Buffer,
-  encoding: string | undefined,
-): Promise<Buffer> {
-  if (encoding === "br") return brotliDecompress(buf);
-  if (encoding === "gzip") return gunzip(buf);
-  if (encoding === "deflate") return inflate(buf);
-  return buf;
+// Cache files used to be named after the raw request path, so a scoped
+// package could be cached twice and sub-routes left stray files. Move
+// everything to one file per package name, once.
+function migrateCacheLayout(): void {
+  let current: string | null = null;
+  try {
+    current = fs.readFileSync(LAYOUT_FILE, "utf8").trim();
+  } catch {}
+  if (current === CACHE_LAYOUT) return;
+
+  const changed =
+    migratePackageFiles(CACHE_DIR, ["tarballs", "corgi", "raw"]) +
+    migratePackageFiles(CACHE_CORGI) +
+    migratePackageFiles(CACHE_RAW);
+  fs.writeFileSync(LAYOUT_FILE, CACHE_LAYOUT);
+  console.log(
+    `cache layout ${current ?? "1"} → ${CACHE_LAYOUT}: migrated ${changed} entries`,
+  );
+}
+
+// Pre-compressed siblings carry tarball URLs for one public URL; drop them
+// all when it changes
+function invalidateStaleSiblings(): void {
+  const expected = siblingBaseUrl() ?? "";
+  let current: string | null = null;
+  try {
+    current = fs.readFileSync(SIBLING_BASE_FILE, "utf8").trim();
+  } catch {}
+  if (current === expected) return;
+
+  let removed = 0;
+  for (const entry of fs.readdirSync(CACHE_DIR, { recursive: true })) {
+    const rel = String(entry);
+    if (rel.startsWith("tarballs")) continue;
+    if (!rel.endsWith(".br") && !rel.endsWith(".gz")) continue;
+    fs.rmSync(path.join(CACHE_DIR, rel), { force: true });
+    removed++;
+  }
+  fs.writeFileSync(SIBLING_BASE_FILE, expected);
+  if (removed > 0) {
+    console.log(`public URL changed: removed ${removed} compressed siblings`);
+  }
 }
 
-function pkgFromUrl(url: string): string {
-  return decodeURIComponent(url.replace(/^\//, ""));
+function firstHeader(value: string | string[] | undefined): string | undefined {
+  const v = Array.isArray(value) ? value[0] : value;
+  return v?.split(",")[0].trim() || undefined;
 }
 
+// hostname[:port], or an IPv6 literal in brackets
+const HOST_RE =
+  /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?(?:\.[a-z0-9](?:[a-z0-9-]*[a-z0-9])?)*|\[[0-9a-f:.]+\])(?::\d{1,5})?$/i;
+
+// The headers are the client's to set and end up in every tarball URL, so
+// anything that isn't plainly a host or a scheme is ignored
+function publicBaseUrl(req: http.IncomingMessage): string {
+  if (PUBLIC_URL) return PUBLIC_URL;
+  const forwardedProto = firstHeader(req.headers["x-forwarded-proto"]);
+  const proto =
+    forwardedProto === "http" || forwardedProto === "https"
+      ? forwardedProto
+      : "http";
+  const host =
+    [firstHeader(req.headers["x-forwarded-host"]), req.headers.host].find(
+      (h) => h !== undefined && HOST_RE.test(h),
+    ) ?? `localhost:${PORT}`;
+  return `${proto}://${host}`;
+}
+
+// Package a request is about, for upstream routing and access control; null
+// for registry-wide endpoints like /-/v1/search
+function routingPkg(url: string): string | null {
+  const p = url.split("?")[0];
+  if (p.startsWith("/-/package/")) {
+    return parsePackagePath(p.slice("/-/package".length))?.name ?? null;
+  }
+  if (p.startsWith("/-/")) return null;
+  return parsePackagePath(p)?.name ?? null;
+}
+
+// Look up the expected digest of a tarball in the cached (stripped) packument
+async function lookupDigest(ref: TarballRef): Promise<TarballDigest | null> {
+  try {
+    const data = JSON.parse(
+      await fsp.readFile(packageFile(CACHE_DIR, ref.pkg), "utf8"),
+    );
+    const dist = data.versions?.[ref.version]?.dist;
+    return dist ? digestFromDist(dist) : null;
+  } catch {
+    return null;
+  }
+}
+
+// `spec` is the version or range a client asked for, whose dependencies are
+// prefetched; none for refreshes no client is waiting on. `fetchedAt`
+// dates the cache entry, see writePackument.
 async function stripAndCache(
   rawPath: string,
   cachePath: string,
-  encoding: string | undefined,
+  corgiPath: string,
+  spec?: string,
+  fetchedAt?: Date,
 ): Promise<void> {
   try {
-    const compressed = await fsp.readFile(rawPath);
-    const decompressed = await decompress(compressed, encoding);
-    const raw = decompressed.toString("utf8");
+    const raw = await fsp.readFile(rawPath, "utf8");
     const data = JSON.parse(raw);
     if (data.versions && data["dist-tags"]) {
-      const stripped = JSON.stringify(
-        stripMetadata(data as NpmPackageMetadata),
+      const { stripped } = await writePackument(
+        data as NpmPackageMetadata,
+        cachePath,
+        corgiPath,
+        fetchedAt,
       );
-      await fsp.mkdir(path.dirname(cachePath), { recursive: true });
-      await fsp.writeFile(cachePath, stripped);
       const rawLen = Buffer.byteLength(raw);
       const strippedLen = Buffer.byteLength(stripped);
       const pct = ((1 - strippedLen / rawLen) * 100).toFixed(0);
       recordStrip(data.name, rawLen, strippedLen);
+      stripRatio.observe(strippedLen / rawLen);
       console.log(`  ⚡ stripped ${data.name} (${pct}% smaller)`);
-      prefetchDeps(data as NpmPackageMetadata);
+      if (spec) prefetchDeps(data as NpmPackageMetadata, spec);
     } else {
-      await fsp.mkdir(path.dirname(cachePath), { recursive: true });
-      await fsp.writeFile(cachePath, raw);
+      await writeFileAtomic(cachePath, raw);
     }
-    await fsp.unlink(rawPath);
   } catch (err) {
     console.error(`  ✗ strip error: ${(err as Error).message}`);
+  } finally {
+    // Staging only: a document that failed to strip is not worth keeping
+    await fsp.rm(rawPath, { force: true });
+  }
+}
+
+// A document left in cache/raw means the process stopped between fetching
+// and stripping it. Finish the job, unless the cache has moved on since.
+async function recoverStaged(): Promise<void> {
+  for (const [pkg, rawPath] of listPackageFiles(CACHE_RAW)) {
+    const cachePath = packageFile(CACHE_DIR, pkg);
+    const raw = fs.statSync(rawPath, { throwIfNoEntry: false });
+    const cached = fs.statSync(cachePath, { throwIfNoEntry: false });
+    if (raw && (!cached || cached.mtimeMs < raw.mtimeMs)) {
+      console.log(`  ⚡ recovering staged ${pkg}`);
+      await stripAndCache(rawPath, cachePath, packageFile(CACHE_CORGI, pkg));
+    } else {
+      await fsp.rm(rawPath, { force: true });
+    }
   }
 }
 
@@ -86,133 +333,814 @@ function proxyPassthrough(
   clientReq: http.IncomingMessage,
   clientRes: http.ServerResponse,
 ): void {
-  const fwdHeaders = { ...clientReq.headers, host: UPSTREAM };
-
-  const proxyReq = https.request(
-    {
-      hostname: UPSTREAM,
-      port: 443,
-      path: clientReq.url,
-      method: clientReq.method,
-      headers: fwdHeaders,
-    },
-    (proxyRes) => {
-      const relayHeaders = { ...proxyRes.headers };
-      clientRes.writeHead(proxyRes.statusCode!, relayHeaders);
-      proxyRes.pipe(clientRes);
-    },
-  );
+  if (OFFLINE) {
+    console.log(`  ← ${id} offline, not forwarded`);
+    clientRes.writeHead(503, { "content-type": "text/plain" });
+    clientRes.end("Service Unavailable (offline mode)");
+    return;
+  }
+
+  const pkg = routingPkg(clientReq.url!);
+  if (pkg && isLocalPackage(pkg)) {
+    console.log(`  ← ${id} ${pkg} is published locally, not forwarded`);
+    clientRes.writeHead(404, { "content-type": "text/plain" });
+    clientRes.end("Not Found");
+    return;
+  }
 
   const startTime = Date.now();
+  // Requests without a body can be replayed against the next upstream
+  const hasBody = clientReq.method !== "GET" && clientReq.method !== "HEAD";
+
+  openUpstream({
+    pkg,
+    method: clientReq.method!,
+    path: clientReq.url!,
+    headers: { ...clientReq.headers },
+    body: hasBody ? clientReq : undefined,
+  })
+    .then(({ res: proxyRes, upstream }) => {
+      clientRes.writeHead(proxyRes.statusCode!, { ...proxyRes.headers });
+      proxyRes.pipe(clientRes);
+      proxyRes.on("error", () => clientRes.destroy());
+      proxyRes.on("close", () => {
+        const elapsed = Date.now() - startTime;
+        recordPassthrough(clientReq.url!, elapsed);
+        passthroughRequests.inc();
+        console.log(`  ← ${id} passthrough ${upstream.name} (${elapsed}ms)`);
+      });
+    })
+    .catch((err) => {
+      console.error(`  ✗ ${id} proxy error: ${err.message}`);
+      recordPassthrough(clientReq.url!, Date.now() - startTime);
+      passthroughRequests.inc();
+      if (!clientRes.headersSent) {
+        clientRes.writeHead(502);
+        clientRes.end("Bad Gateway");
+      } else {
+        clientRes.destroy();
+      }
+    });
+}
+
+// Opened before any headers go out: eviction, verify --repair or an unpublish
+// can remove the file at any moment, and once it is open that no longer
+// matters. Null when it is already gone.
+async function openTarball(
+  file: string,
+): Promise<{ fh: fsp.FileHandle; size: number } | null> {
+  let fh: fsp.FileHandle | undefined;
+  try {
+    fh = await fsp.open(file, "r");
+    return { fh, size: (await fh.stat()).size };
+  } catch {
+    await fh?.close();
+    return null;
+  }
+}
+
+function sendTarball(
+  id: string,
+  { fh, size }: { fh: fsp.FileHandle; size: number },
+  clientRes: http.ServerResponse,
+): void {
+  clientRes.writeHead(200, {
+    "content-type": "application/octet-stream",
+    "content-length": size,
+    "x-cache": "HIT",
+  });
+  fh.createReadStream()
+    .on("error", (err) => {
+      console.error(`  ✗ ${id} tarball read error: ${err.message}`);
+      clientRes.destroy();
+    })
+    .pipe(clientRes);
+}
 
-  proxyReq.on("error", (err) => {
-    console.error(`  ✗ ${id} proxy error: ${err.message}`);
+// Published tarballs live in storage, not the content-addressed cache
+async function serveLocalTarball(
+  id: string,
+  ref: TarballRef,
+  clientRes: http.ServerResponse,
+): Promise<void> {
+  const opened = await openTarball(localTarballPath(ref.pkg, ref.version));
+  if (!opened) {
+    console.log(`  ← ${id} TARBALL not published`);
+    clientRes.writeHead(404, { "content-type": "text/plain" });
+    clientRes.end("Not Found");
+    return;
+  }
+  console.log(`  ← ${id} TARBALL LOCAL ${opened.size} bytes`);
+  recordTarballHit(ref.pkg, opened.size);
+  cacheRequests.inc({ type: "tarball", result: "hit" });
+  sendTarball(id, opened, clientRes);
+}
+
+async function handleTarball(
+  id: string,
+  ref: TarballRef,
+  clientReq: http.IncomingMessage,
+  clientRes: http.ServerResponse,
+): Promise<void> {
+  if (isLocalPackage(ref.pkg)) {
+    await serveLocalTarball(id, ref, clientRes);
+    return;
+  }
+
+  // Without a known digest we can't verify the bytes, so don't store them
+  const digest = await lookupDigest(ref);
+  if (!digest) {
+    proxyPassthrough(id, clientReq, clientRes);
+    return;
+  }
+
+  const opened = await openTarball(tarballPath(digest));
+  if (opened) {
+    console.log(`  ← ${id} TARBALL CACHE ${opened.size} bytes`);
+    recordTarballHit(ref.pkg, opened.size);
+    cacheRequests.inc({ type: "tarball", result: "hit" });
+    sendTarball(id, opened, clientRes);
+    return;
+  }
+
+  if (OFFLINE) {
+    console.log(`  ← ${id} TARBALL not cached (offline)`);
+    clientRes.writeHead(504, { "content-type": "text/plain" });
+    clientRes.end("Gateway Timeout: not cached (offline mode)");
+    return;
+  }
+
+  try {
+    await fetchTarball(id, ref, clientReq.url!, digest, clientReq.headers, {
+      head: (proxyRes) =>
+        clientRes.writeHead(proxyRes.statusCode!, {
+          ...proxyRes.headers,
+          "x-cache": "MISS",
+        }),
+      chunk: (chunk) => clientRes.write(chunk),
+      end: () => clientRes.end(),
+    });
+  } catch (err) {
+    const message = (err as Error).message;
+    if (clientRes.headersSent) {
+      console.error(`  ✗ ${id} tarball stream error: ${message}`);
+      clientRes.destroy();
+      return;
+    }
+    console.error(`  ✗ ${id} proxy error: ${message}`);
     clientRes.writeHead(502);
     clientRes.end("Bad Gateway");
-  });
+  }
+}
+
+// Without a usable pre-compressed sibling, gzip on the fly — cheap enough
+// per request, unlike brotli
+function onTheFlyEncoding(
+  acceptEncoding: string | undefined,
+): ContentEncoding | null {
+  return negotiateEncoding(acceptEncoding, ["gzip"]);
+}
+
+async function encodeBody(
+  identity: Buffer,
+  acceptEncoding: string | undefined,
+): Promise<{ body: Buffer; encoding: ContentEncoding | null }> {
+  const encoding = onTheFlyEncoding(acceptEncoding);
+  if (!encoding) return { body: identity, encoding: null };
+  return { body: await compress(identity, encoding, true), encoding };
+}
 
-  proxyReq.on("close", () => {
-    const elapsed = Date.now() - startTime;
-    recordPassthrough(clientReq.url!, elapsed);
-    console.log(`  ← ${id} passthrough (${elapsed}ms)`);
+async function readCached(
+  file: string,
+): Promise<{ text: string; mtime: Date } | null> {
+  let fh: fsp.FileHandle | undefined;
+  try {
+    fh = await fsp.open(file, "r");
+    const { mtime } = await fh.stat();
+    const text = await fh.readFile("utf8");
+    return { text, mtime };
+  } catch {
+    return null;
+  } finally {
+    await fh?.close();
+  }
+}
+
+// Files already checked, by mtime: each version of a cached document is
+// parsed once, not on every hit. Oldest checks are forgotten past
+// MAX_INTACT, so evicted and removed packages don't pile up here.
+const intact = new Map<string, number>();
+const MAX_INTACT = 10_000;
+
+// A cached document that can't be served is a miss: drop it so it gets
+// fetched again rather than served broken forever
+async function readIntact(
+  id: string,
+  pkg: string,
+  file: string,
+): Promise<{ text: string; mtime: Date } | null> {
+  const cached = await readCached(file);
+  if (!cached || intact.get(file) === cached.mtime.getTime()) return cached;
+  const problem = packumentProblem(cached.text, pkg);
+  if (problem === null) {
+    intact.delete(file);
+    intact.set(file, cached.mtime.getTime());
+    if (intact.size > MAX_INTACT) intact.delete(intact.keys().next().value!);
+    return cached;
+  }
+  console.error(`  ✗ ${id} cached ${pkg} is corrupt (${problem}), refetching`);
+  intact.delete(file);
+  await removePackument(pkg);
+  return null;
+}
+
+// Strong validator for what is served: the document, the base URL its
+// tarball URLs are rewritten to, and the content coding. It's known before
+// anything is compressed, so a 304 never pays for the gzip.
+function etagFor(
+  text: string,
+  base: string,
+  encoding: ContentEncoding | null,
+): string {
+  const hash = crypto
+    .createHash("sha1")
+    .update(base)
+    .update("\n")
+    .update(text)
+    .digest("base64url");
+  return `"${hash}${encoding ? `-${encoding}` : ""}"`;
+}
+
+function isNotModified(
+  req: http.IncomingMessage,
+  etag: string,
+  mtime: Date,
+): boolean {
+  const ifNoneMatch = req.headers["if-none-match"];
+  if (ifNoneMatch) {
+    // If-None-Match takes precedence; compare weakly as RFC 9110 requires
+    return ifNoneMatch
+      .split(",")
+      .map((tag) => tag.trim().replace(/^W\//, ""))
+      .some((tag) => tag === "*" || tag === etag);
+  }
+  const ifModifiedSince = req.headers["if-modified-since"];
+  if (ifModifiedSince) {
+    const since = Date.parse(ifModifiedSince);
+    // HTTP dates have second precision
+    return !isNaN(since) && Math.floor(mtime.getTime() / 1000) * 1000 <= since;
+  }
+  return false;
+}
+
+interface StaleSource {
+  id: string;
+  pkg: string;
+  cachePath: string;
+  rawPath: string;
+  abbreviated: boolean;
+}
+
+// The best copy still on disk when the requested variant isn't cached
+async function readStale(src: StaleSource): Promise<string | null> {
+  // The strip profile keeps everything the abbreviated document needs
+  if (src.abbreviated) {
+    const full = await readCached(src.cachePath);
+    if (full) {
+      try {
+        return JSON.stringify(abbreviateMetadata(JSON.parse(full.text)));
+      } catch {}
+    }
+  }
+  // An upstream document left in staging by an interrupted strip
+  const raw = await readCached(src.rawPath);
+  if (raw) {
+    try {
+      const data = JSON.parse(raw.text);
+      if (data.versions && data["dist-tags"]) {
+        return JSON.stringify(
+          src.abbreviated ? abbreviateMetadata(data) : stripMetadata(data),
+        );
+      }
+    } catch {}
+  }
+  return null;
+}
+
+// stale-if-error: answer from whatever we have, flagged as stale
+async function serveStale(
+  src: StaleSource,
+  doc: string,
+  reason: string,
+  clientReq: http.IncomingMessage,
+  clientRes: http.ServerResponse,
+): Promise<void> {
+  const { body, encoding } = await encodeBody(
+    Buffer.from(rewriteTarballUrls(doc, publicBaseUrl(clientReq))),
+    clientReq.headers["accept-encoding"],
+  );
+  console.log(`  ← ${src.id} STALE ${body.length} bytes (${reason})`);
+  recordHit(src.pkg, body.length, Buffer.byteLength(doc));
+  cacheRequests.inc({ type: "packument", result: "stale" });
+  clientRes.writeHead(200, {
+    "content-type": src.abbreviated
+      ? ABBREVIATED_CONTENT_TYPE
+      : "application/json",
+    "content-length": body.length,
+    vary: VARY,
+    "x-cache": "STALE",
+    warning: '111 upm-registry "Revalidation Failed"',
+    ...(encoding && { "content-encoding": encoding }),
   });
+  clientRes.end(body);
+}
+
+type PackumentMiss =
+  | { stale: false; upstream: PackumentResponse; leader: boolean }
+  | { stale: true; doc: string; reason: string };
+
+// The miss path of every packument route: fetch the full document upstream,
+// or fall back to a stale copy when that fails. Returns null once it has
+// answered the client itself (offline, upstream error, not found).
+async function fetchMiss(
+  src: StaleSource,
+  clientReq: http.IncomingMessage,
+  clientRes: http.ServerResponse,
+): Promise<PackumentMiss | null> {
+  const { id, pkg } = src;
+  const fallback = async (reason: string): Promise<PackumentMiss | null> => {
+    const doc = await readStale(src);
+    return doc ? { stale: true, doc, reason } : null;
+  };
 
-  clientReq.pipe(proxyReq);
+  if (OFFLINE) {
+    const stale = await fallback("offline mode");
+    if (stale) return stale;
+    console.log(`  ← ${id} not cached (offline)`);
+    clientRes.writeHead(504, { "content-type": "text/plain" });
+    clientRes.end("Gateway Timeout: not cached (offline mode)");
+    return null;
+  }
+
+  // Always the full document, both variants are built from it. Concurrent
+  // misses for the same package share one fetch.
+  const fwdHeaders = { ...clientReq.headers };
+  for (const name of HOP_HEADERS) delete fwdHeaders[name];
+  const { response, leader } = fetchPackument(
+    pkg,
+    packageUrlPath(pkg),
+    fwdHeaders,
+  );
+  let upstream: PackumentResponse;
+  try {
+    upstream = await response;
+  } catch (err) {
+    const reason = (err as Error).message;
+    console.error(`  ✗ ${id} proxy error: ${reason}`);
+    const stale = await fallback(reason);
+    if (stale) return stale;
+    clientRes.writeHead(502);
+    clientRes.end("Bad Gateway");
+    return null;
+  }
+
+  console.log(
+    `  ← ${id} ${upstream.status} ${upstream.wireBytes} bytes${leader ? "" : " (shared)"} (${upstream.elapsedMs}ms)`,
+  );
+
+  if (upstream.status >= 500) {
+    const stale = await fallback(`upstream ${upstream.status}`);
+    if (stale) return stale;
+  }
+
+  if (upstream.status !== 200) {
+    recordMiss(pkg, upstream.body.length, upstream.elapsedMs);
+    cacheRequests.inc({ type: "packument", result: "miss" });
+    clientRes.writeHead(upstream.status, {
+      ...upstream.headers,
+      "content-length": upstream.body.length,
+    });
+    clientRes.end(upstream.body);
+    return null;
+  }
+  return { stale: false, upstream, leader };
 }
 
 async function handleMetadata(
   id: string,
   pkg: string,
   cachePath: string,
+  corgiPath: string,
   clientReq: http.IncomingMessage,
   clientRes: http.ServerResponse,
 ): Promise<void> {
-  // Try cache first (single async read, no separate exists check)
-  try {
-    const body = await fsp.readFile(cachePath);
-    console.log(`  ← ${id} CACHE ${body.length} bytes`);
-    recordHit(pkg, body.length);
+  const abbreviated = acceptsAbbreviated(clientReq.headers.accept);
+  const contentType = abbreviated
+    ? ABBREVIATED_CONTENT_TYPE
+    : "application/json";
+
+  const acceptEncoding = clientReq.headers["accept-encoding"];
+
+  // Try cache first (single open, no separate exists check)
+  const file = abbreviated ? corgiPath : cachePath;
+  const cached = await readIntact(id, pkg, file);
+  if (cached) {
+    if (isExpired(pkg, cached.mtime)) revalidate(id, pkg, cached.mtime);
+    const base = publicBaseUrl(clientReq);
+
+    // Pre-compressed siblings only hold tarball URLs for their own base URL
+    let encoding: ContentEncoding | null = null;
+    let body: Buffer | null = null;
+    if (base === siblingBaseUrl()) {
+      encoding = negotiateEncoding(acceptEncoding, ["br", "gzip"]);
+      if (encoding) {
+        body = await readCompressedSibling(file, encoding, cached.mtime);
+      }
+    }
+    if (!body) encoding = onTheFlyEncoding(acceptEncoding);
+
+    const etag = etagFor(cached.text, base, encoding);
+    const validators = {
+      etag,
+      "last-modified": cached.mtime.toUTCString(),
+      vary: VARY,
+      "x-cache": "HIT",
+    };
+
+    if (isNotModified(clientReq, etag, cached.mtime)) {
+      console.log(`  ← ${id} CACHE 304`);
+      recordNotModified(pkg);
+      cacheRequests.inc({ type: "packument", result: "not_modified" });
+      clientRes.writeHead(304, validators);
+      clientRes.end();
+      return;
+    }
+
+    if (!body) {
+      body = Buffer.from(rewriteTarballUrls(cached.text, base));
+      if (encoding) body = await compress(body, encoding, true);
+    }
+
+    console.log(
+      `  ← ${id} CACHE ${body.length} bytes [${encoding ?? "identity"}]`,
+    );
+    recordHit(pkg, body.length, Buffer.byteLength(cached.text));
+    cacheRequests.inc({ type: "packument", result: "hit" });
     clientRes.writeHead(200, {
-      "content-type": "application/json",
+      ...validators,
+      "content-type": contentType,
       "content-length": body.length,
+      ...(encoding && { "content-encoding": encoding }),
     });
     clientRes.end(body);
     return;
-  } catch {
-    // Cache miss, fall through to upstream
   }
 
-  // Fetch from upstream
-  const fwdHeaders = { ...clientReq.headers, host: UPSTREAM };
-  delete fwdHeaders["if-none-match"];
-  delete fwdHeaders["if-modified-since"];
+  // Published here: rebuild the cache entry from storage, never go upstream
+  const local = await readLocalPackument(pkg);
+  if (local) {
+    await cacheLocalPackument(local);
+    return handleMetadata(id, pkg, cachePath, corgiPath, clientReq, clientRes);
+  }
 
-  const startTime = Date.now();
+  const rawPath = packageFile(CACHE_RAW, pkg);
+  const stale = { id, pkg, cachePath, rawPath, abbreviated };
+  const miss = await fetchMiss(stale, clientReq, clientRes);
+  if (!miss) return;
+  if (miss.stale) {
+    await serveStale(stale, miss.doc, miss.reason, clientReq, clientRes);
+    return;
+  }
+  const { upstream, leader } = miss;
 
-  const proxyReq = https.request(
-    {
-      hostname: UPSTREAM,
-      port: 443,
-      path: clientReq.url,
-      method: "GET",
-      headers: fwdHeaders,
-    },
-    (proxyRes) => {
-      const encoding = proxyRes.headers["content-encoding"];
-
-      // Stream response to client immediately
-      const relayHeaders = { ...proxyRes.headers };
-      clientRes.writeHead(proxyRes.statusCode!, relayHeaders);
-
-      // Collect chunks for async cache while streaming to client
-      const chunks: Buffer[] = [];
-      proxyRes.on("data", (chunk: Buffer) => {
-        chunks.push(chunk);
-        clientRes.write(chunk);
-      });
+  try {
+    let doc = upstream.body.toString("utf8");
+    let docType = "application/json";
+    // The cache's copy of what is sent, once the upstream document is written
+    let cacheText = doc;
+    const data = JSON.parse(doc);
+    if (data.versions && data["dist-tags"]) {
+      if (abbreviated) {
+        doc = cacheText = JSON.stringify(abbreviateMetadata(data));
+        docType = ABBREVIATED_CONTENT_TYPE;
+      } else {
+        cacheText = JSON.stringify(stripMetadata(data));
+      }
+    }
+    const base = publicBaseUrl(clientReq);
+    const { body, encoding: sentEncoding } = await encodeBody(
+      Buffer.from(rewriteTarballUrls(doc, base)),
+      acceptEncoding,
+    );
+    // Upstream's validators describe upstream's bytes. Announce the ones the
+    // next hit will have instead, so a conditional request gets its 304:
+    // weak, as the original document is only equivalent to the stripped one.
+    const relayHeaders: http.OutgoingHttpHeaders = { ...upstream.headers };
+    relayHeaders["etag"] = `W/${etagFor(cacheText, base, sentEncoding)}`;
+    relayHeaders["last-modified"] = upstream.fetchedAt.toUTCString();
+    if (sentEncoding) relayHeaders["content-encoding"] = sentEncoding;
+    relayHeaders["content-type"] = docType;
+    relayHeaders["content-length"] = body.length;
+    relayHeaders["vary"] = VARY;
+    relayHeaders["x-cache"] = "MISS";
+    recordMiss(pkg, body.length, upstream.elapsedMs);
+    cacheRequests.inc({ type: "packument", result: "miss" });
+    clientRes.writeHead(200, relayHeaders);
+    clientRes.end(body);
+  } catch (err) {
+    console.error(`  ✗ ${id} decode error: ${(err as Error).message}`);
+    clientRes.writeHead(502);
+    clientRes.end("Bad Gateway");
+    return;
+  }
 
-      proxyRes.on("end", () => {
-        clientRes.end();
+  // Whoever started the fetch caches it; everyone else was only fed from it
+  if (leader) {
+    cacheUpstreamBody(
+      pkg,
+      upstream,
+      firstHeader(clientReq.headers[PREFETCH_HINT]) ?? "latest",
+    );
+  }
+}
 
-        const compressed = Buffer.concat(chunks);
-        const elapsed = Date.now() - startTime;
+// Upstream's ETag for what each cached document was built from, sent when
+// revalidating. Kept in memory only: If-Modified-Since covers a restart.
+const upstreamEtags = new Map<string, string>();
+const MAX_UPSTREAM_ETAGS = 10_000;
+
+// Fire-and-forget: save raw + strip asynchronously, and keep upstream's ETag
+function cacheUpstreamBody(
+  pkg: string,
+  upstream: PackumentResponse,
+  spec?: string,
+): Promise<void> {
+  const rawPath = packageFile(CACHE_RAW, pkg);
+  const etag = firstHeader(upstream.headers.etag);
+  upstreamEtags.delete(pkg);
+  if (etag) {
+    upstreamEtags.set(pkg, etag);
+    if (upstreamEtags.size > MAX_UPSTREAM_ETAGS) {
+      upstreamEtags.delete(upstreamEtags.keys().next().value!);
+    }
+  }
+  return writeFileAtomic(rawPath, upstream.body)
+    .then(() =>
+      stripAndCache(
+        rawPath,
+        packageFile(CACHE_DIR, pkg),
+        packageFile(CACHE_CORGI, pkg),
+        spec,
+        upstream.fetchedAt,
+      ),
+    )
+    .catch((err) => console.error(`  ✗ cache write error: ${err.message}`));
+}
 
+// Packages being revalidated, until the new copy is written: hits that
+// arrive meanwhile see the old mtime and must not start another fetch
+const revalidating = new Set<string>();
+
+// stale-while-revalidate: an expired hit is served as it is while this
+// replaces it. Until a fetch succeeds the old copy keeps being served.
+// The copy is dated when it was fetched, so upstream answers 304 when
+// nothing changed since, and only the date moves.
+function revalidate(id: string, pkg: string, mtime: Date): void {
+  // A miss or the sync loop is already fetching it
+  if (OFFLINE || revalidating.has(pkg) || isFetching(pkg)) return;
+  const headers: http.OutgoingHttpHeaders = {
+    "if-modified-since": mtime.toUTCString(),
+  };
+  const etag = upstreamEtags.get(pkg);
+  if (etag) headers["if-none-match"] = etag;
+  revalidating.add(pkg);
+  fetchPackument(pkg, packageUrlPath(pkg), headers)
+    .response.then((upstream) => {
+      if (upstream.status === 304) {
         console.log(
-          `  ← ${id} ${proxyRes.statusCode} ${compressed.length} bytes [${encoding || "identity"}] (${elapsed}ms)`,
+          `  ↻ ${id} revalidated ${pkg}, unchanged (${upstream.elapsedMs}ms)`,
         );
-        recordMiss(pkg, compressed.length, elapsed);
-
-        // Fire-and-forget: save raw + strip asynchronously
-        const rawPath = pkgCachePath(CACHE_RAW, clientReq.url!);
-        fsp
-          .mkdir(path.dirname(rawPath), { recursive: true })
-          .then(() => fsp.writeFile(rawPath, compressed))
-          .then(() => stripAndCache(rawPath, cachePath, encoding))
-          .catch((err) =>
-            console.error(`  ✗ cache write error: ${err.message}`),
-          );
-      });
-    },
+        return touchPackument(pkg, upstream.fetchedAt);
+      }
+      if (upstream.status !== 200) {
+        console.error(
+          `  ✗ ${id} revalidate ${pkg}: upstream ${upstream.status}`,
+        );
+        return;
+      }
+      console.log(`  ↻ ${id} revalidated ${pkg} (${upstream.elapsedMs}ms)`);
+      return cacheUpstreamBody(pkg, upstream);
+    })
+    .catch((err) =>
+      console.error(`  ✗ ${id} revalidate ${pkg}: ${err.message}`),
+    )
+    .finally(() => revalidating.delete(pkg));
+}
+
+interface LoadedPackument {
+  data: VersionedDocument;
+  mtime: Date;
+  cache: "HIT" | "MISS" | "STALE";
+  elapsedMs: number;
+}
+
+// The stripped packument a version route is answered from: the cached copy,
+// or an upstream fetch that fills the cache on the way. Returns null once it
+// has answered the client itself (upstream error, not found). A fetch
+// prefetches the dependencies of `spec`, the version the route asked for.
+async function loadPackument(
+  id: string,
+  pkg: string,
+  spec: string,
+  clientReq: http.IncomingMessage,
+  clientRes: http.ServerResponse,
+): Promise<LoadedPackument | null> {
+  const cachePath = packageFile(CACHE_DIR, pkg);
+  const cached = await readIntact(id, pkg, cachePath);
+  if (cached) {
+    if (isExpired(pkg, cached.mtime)) revalidate(id, pkg, cached.mtime);
+    const data = JSON.parse(cached.text);
+    return { data, mtime: cached.mtime, cache: "HIT", elapsedMs: 0 };
+  }
+
+  const local = await readLocalPackument(pkg);
+  if (local) {
+    await cacheLocalPackument(local);
+    return loadPackument(id, pkg, spec, clientReq, clientRes);
+  }
+
+  const rawPath = packageFile(CACHE_RAW, pkg);
+  const miss = await fetchMiss(
+    { id, pkg, cachePath, rawPath, abbreviated: false },
+    clientReq,
+    clientRes,
   );
+  if (!miss) return null;
+  if (miss.stale) {
+    console.log(`  ← ${id} STALE ${pkg} (${miss.reason})`);
+    const data = JSON.parse(miss.doc);
+    return { data, mtime: new Date(), cache: "STALE", elapsedMs: 0 };
+  }
+  const { upstream, leader } = miss;
 
-  proxyReq.on("error", (err) => {
-    console.error(`  ✗ ${id} proxy error: ${err.message}`);
-    if (!clientRes.headersSent) {
-      clientRes.writeHead(502);
-      clientRes.end("Bad Gateway");
-    }
-  });
+  let data: NpmPackageMetadata;
+  try {
+    data = JSON.parse(upstream.body.toString("utf8"));
+  } catch (err) {
+    console.error(`  ✗ ${id} decode error: ${(err as Error).message}`);
+    clientRes.writeHead(502);
+    clientRes.end("Bad Gateway");
+    return null;
+  }
+  if (leader) cacheUpstreamBody(pkg, upstream, spec);
+  return {
+    // Resolve against what the cache will hold, not the upstream original
+    data: data.versions && data["dist-tags"] ? stripMetadata(data) : data,
+    mtime: upstream.fetchedAt,
+    cache: "MISS",
+    elapsedMs: upstream.elapsedMs,
+  };
+}
+
+// GET /express/4.19.2, /express/latest, /express/^4: one version entry taken
+// from the package document, so it is exactly as fresh as that document and
+// never cached on its own
+async function handleVersion(
+  id: string,
+  pkg: string,
+  spec: string,
+  clientReq: http.IncomingMessage,
+  clientRes: http.ServerResponse,
+): Promise<void> {
+  const loaded = await loadPackument(id, pkg, spec, clientReq, clientRes);
+  if (!loaded) return;
 
-  clientReq.pipe(proxyReq);
+  const version = resolveVersion(loaded.data, spec);
+  if (!version) {
+    console.log(`  ← ${id} ${pkg}@${spec} not found`);
+    sendJson(clientRes, 404, { error: `version not found: ${spec}` });
+    return;
+  }
+
+  const entry = JSON.stringify(loaded.data.versions![version]);
+  const base = publicBaseUrl(clientReq);
+  const encoding = onTheFlyEncoding(clientReq.headers["accept-encoding"]);
+  const etag = etagFor(entry, base, encoding);
+  const validators: http.OutgoingHttpHeaders = {
+    etag,
+    "last-modified": loaded.mtime.toUTCString(),
+    vary: VARY,
+    "x-cache": loaded.cache,
+  };
+  if (loaded.cache === "STALE") {
+    validators["warning"] = '111 upm-registry "Revalidation Failed"';
+  }
+
+  if (isNotModified(clientReq, etag, loaded.mtime)) {
+    console.log(`  ← ${id} ${pkg}@${version} 304`);
+    recordNotModified(pkg);
+    cacheRequests.inc({ type: "packument", result: "not_modified" });
+    clientRes.writeHead(304, validators);
+    clientRes.end();
+    return;
+  }
+
+  let body: Buffer = Buffer.from(rewriteTarballUrls(entry, base));
+  if (encoding) body = await compress(body, encoding, true);
+  console.log(
+    `  ← ${id} ${loaded.cache} ${pkg}@${version} ${body.length} bytes [${encoding ?? "identity"}]`,
+  );
+  if (loaded.cache === "MISS") recordMiss(pkg, body.length, loaded.elapsedMs);
+  else recordHit(pkg, body.length, Buffer.byteLength(entry));
+  cacheRequests.inc({
+    type: "packument",
+    result: loaded.cache.toLowerCase(),
+  });
+  clientRes.writeHead(200, {
+    ...validators,
+    "content-type": "application/json",
+    "content-length": body.length,
+    ...(encoding && { "content-encoding": encoding }),
+  });
+  clientRes.end(body);
 }
 
 const server = http.createServer((clientReq, clientRes) => {
   const id = String(++counter).padStart(4, "0");
   console.log(`→ ${id} ${clientReq.method} ${clientReq.url}`);
 
+  // Always 200 while the process is up: an upstream outage is reported,
+  // not treated as a reason to restart the pod
   if (clientReq.url === "/-/health") {
-    clientRes.writeHead(200, { "content-type": "text/plain" });
-    clientRes.end("ok");
+    const body = JSON.stringify({
+      status: "ok",
+      mode: OFFLINE ? "offline" : "online",
+      upstreams: upstreamHealth(),
+    });
+    clientRes.writeHead(200, {
+      "content-type": "application/json",
+      "content-length": Buffer.byteLength(body),
+    });
+    clientRes.end(body);
+    return;
+  }
+
+  // Counters only, nothing per package: as open as the health check
+  if (clientReq.url === "/-/metrics") {
+    sendMetrics(clientReq, clientRes);
+    return;
+  }
+
+  if (isUserRoute(clientReq.url!)) {
+    handleUserRequest(id, clientReq, clientRes);
+    return;
+  }
+
+  if (isSyncRoute(clientReq.url!)) {
+    handleSyncRequest(id, clientReq, clientRes);
+    return;
+  }
+
+  if (isPrefetchRoute(clientReq.url!)) {
+    handlePrefetchRequest(id, clientReq, clientRes);
+    return;
+  }
+
+  const route = parseLocalRoute(clientReq.url!);
+  const isWrite =
+    route !== null && clientReq.method !== "GET" && clientReq.method !== "HEAD";
+
+  // Every package request, cached or not, is checked against the ACLs
+  const identity = authenticate(clientReq);
+  const permission = isWrite ? "publish" : "read";
+  const target = routingPkg(clientReq.url!);
+  if (!isAllowed(identity, permission, target)) {
+    console.log(`  ← ${id} denied ${permission} ${target ?? "*"}`);
+    deny(identity, permission, target, clientRes);
+    return;
+  }
+
+  if (isWrite) {
+    handleLocalWrite(id, route, identity, clientReq, clientRes);
+    return;
+  }
+
+  // npm reads the full document (?write=true) or dist-tags before writing
+  if (
+    route &&
+    clientReq.method === "GET" &&
+    (route.distTags || /[?&]write=true/.test(clientReq.url!)) &&
+    isLocalPackage(route.pkg)
+  ) {
+    handleLocalRead(id, route, publicBaseUrl(clientReq), clientRes).catch(
+      (err) => {
+        console.error(`  ✗ ${id} error: ${(err as Error).message}`);
+        if (!clientRes.headersSent) {
+          clientRes.writeHead(500);
+          clientRes.end("Internal Server Error");
+        }
+      },
+    );
     return;
   }
 
@@ -222,24 +1150,90 @@ const server = http.createServer((clientReq, clientRes) => {
   }
 
   if (clientReq.url!.includes("/-/")) {
+    const ref = parseTarballUrl(clientReq.url!);
+    if (!ref) {
+      proxyPassthrough(id, clientReq, clientRes);
+      return;
+    }
+    handleTarball(id, ref, clientReq, clientRes).catch((err) => {
+      console.error(`  ✗ ${id} error: ${(err as Error).message}`);
+      if (!clientRes.headersSent) {
+        clientRes.writeHead(500);
+        clientRes.end("Internal Server Error");
+      }
+    });
+    return;
+  }
+
+  // Not a package document: relay as-is
+  const parsed = parsePackagePath(clientReq.url!);
+  if (!parsed || parsed.rest.length > 1) {
     proxyPassthrough(id, clientReq, clientRes);
     return;
   }
 
-  const cachePath = pkgCachePath(CACHE_DIR, clientReq.url!);
-  const pkg = pkgFromUrl(clientReq.url!);
+  if (parsed.rest.length === 1) {
+    handleVersion(id, parsed.name, parsed.rest[0], clientReq, clientRes).catch(
+      (err) => {
+        console.error(`  ✗ ${id} error: ${(err as Error).message}`);
+        if (!clientRes.headersSent) {
+          clientRes.writeHead(500);
+          clientRes.end("Internal Server Error");
+        }
+      },
+    );
+    return;
+  }
 
-  handleMetadata(id, pkg, cachePath, clientReq, clientRes).catch((err) => {
-    console.error(`  ✗ ${id} error: ${(err as Error).message}`);
-    if (!clientRes.headersSent) {
-      clientRes.writeHead(500);
-      clientRes.end("Internal Server Error");
-    }
-  });
+  const pkg = parsed.name;
+  const cachePath = packageFile(CACHE_DIR, pkg);
+  const corgiPath = packageFile(CACHE_CORGI, pkg);
+
+  handleMetadata(id, pkg, cachePath, corgiPath, clientReq, clientRes).catch(
+    (err) => {
+      console.error(`  ✗ ${id} error: ${(err as Error).message}`);
+      if (!clientRes.headersSent) {
+        clientRes.writeHead(500);
+        clientRes.end("Internal Server Error");
+      }
+    },
+  );
 });
 
 server.listen(PORT, () => {
   console.log(`upm-registry listening on http://localhost:${PORT}`);
   console.log(`Cache: ${CACHE_DIR}`);
+  console.log(`Access rules (${ACCESS_SOURCE}):`);
+  for (const r of ACCESS_RULES) {
+    console.log(
+      `  ${r.pattern} read: ${r.read.join(", ") || "-"} publish: ${r.publish.join(", ") || "-"}`,
+    );
+  }
+  console.log(`Upstreams (${UPSTREAMS_SOURCE}):`);
+  for (const u of UPSTREAMS) {
+    const scopes = u.scopes.length > 0 ? u.scopes.join(", ") : "*";
+    console.log(`  ${u.name} ${u.url} [${scopes}]${u.token ? " (token)" : ""}`);
+  }
+  if (CACHE_MAX_BYTES) {
+    const pinned = CACHE_PINNED.length ? CACHE_PINNED.join(", ") : "none";
+    console.log(`Cache budget: ${CACHE_MAX_BYTES} bytes (pinned: ${pinned})`);
+  }
+  if (CACHE_TTL_MS || CACHE_TTL_RULES.length) {
+    const rules = CACHE_TTL_RULES.map((r) => `${r.pattern} ${r.ttlMs / 1000}s`);
+    console.log(
+      `Cache TTL: ${CACHE_TTL_MS ? `${CACHE_TTL_MS / 1000}s` : "none"}${rules.length ? ` (${rules.join(", ")})` : ""}`,
+    );
+  }
+  if (OFFLINE) console.log("Offline mode: upstream will not be contacted");
+  else if (SYNC_IN_PROCESS) console.log("Sync: running in-process");
+  if (!OFFLINE && (WARM_TOP || WARM_SEED_FILE)) {
+    console.log(
+      `Warming: top ${WARM_TOP} packages${WARM_SEED_FILE ? `, seeds from ${WARM_SEED_FILE}` : ""}`,
+    );
+  }
   console.log();
+  startEvictor();
+  startWarmer();
+  // Offline, there's no feed to follow and nothing to refresh from
+  if (SYNC_IN_PROCESS && !OFFLINE) startSync();
 });
@@ -4,7 +4,9 @@ import path from "node:path";
 import { fileURLToPath } from "node:url";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const DATA_DIR = path.join(__dirname, "..", "data");
+// Holds stats.db, which users, tokens and the sync queue share
+export const DATA_DIR =
+  process.env.DATA_DIR ?? path.join(__dirname, "..", "data");
 fs.mkdirSync(DATA_DIR, { recursive: true });
 
 const db = new Database(path.join(DATA_DIR, "stats.db"), { create: true });
@@ -18,12 +20,57 @@ db.exec(`
     package    TEXT,
     raw_bytes  INTEGER,
     size_bytes INTEGER,
-    elapsed_ms INTEGER
+    elapsed_ms INTEGER,
+    -- Hits: size_bytes before content-encoding, to set against raw_bytes
+    identity_bytes INTEGER
+  )
+`);
+// Databases created before compressed responses lack the column
+const eventColumns = db.query("PRAGMA table_info(events)").all() as {
+  name: string;
+}[];
+if (!eventColumns.some((c) => c.name === "identity_bytes")) {
+  db.exec("ALTER TABLE events ADD COLUMN identity_bytes INTEGER");
+}
+db.exec(
+  "CREATE INDEX IF NOT EXISTS events_kind_package ON events (kind, package)",
+);
+db.exec("CREATE INDEX IF NOT EXISTS events_ts ON events (ts)");
+
+// Events summed per hour and per day, so history and totals outlive the raw
+// events. Latency percentiles are computed from the raw events of each
+// bucket, never from other rollups.
+for (const table of ["events_hourly", "events_daily"]) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${table} (
+      start       TEXT    NOT NULL,
+      kind        TEXT    NOT NULL,
+      count       INTEGER NOT NULL,
+      size_bytes  INTEGER NOT NULL,
+      saved_bytes INTEGER NOT NULL,
+      p50_ms      INTEGER,
+      p95_ms      INTEGER,
+      p99_ms      INTEGER,
+      PRIMARY KEY (start, kind)
+    )
+  `);
+}
+// Events before rolled_to are in the bucket's table
+db.exec(`
+  CREATE TABLE IF NOT EXISTS rollup_state (
+    bucket    TEXT PRIMARY KEY,
+    rolled_to TEXT NOT NULL
   )
 `);
 
 const startedAt = Date.now();
 
+// Raw events older than this are deleted once rolled up; 0 keeps them.
+// Popularity-based warming reads raw events, so keep at least WARM_DAYS.
+export const STATS_RETENTION_DAYS =
+  Number(process.env.STATS_RETENTION_DAYS) || 0;
+const ROLLUP_INTERVAL = 10 * 60_000; // 10 minutes
+
 // In-memory map: package name → original raw bytes (from strip events)
 // Used to calculate bandwidth savings on cache hits
 const rawSizeMap = new Map<string, number>();
@@ -40,10 +87,16 @@ for (const row of rows) {
 
 // Prepared statements
 const insertEvent = db.query(
-  "INSERT INTO events (kind, package, raw_bytes, size_bytes, elapsed_ms) VALUES ($kind, $package, $rawBytes, $sizeBytes, $elapsedMs)",
+  "INSERT INTO events (kind, package, raw_bytes, size_bytes, elapsed_ms, identity_bytes) VALUES ($kind, $package, $rawBytes, $sizeBytes, $elapsedMs, $identityBytes)",
 );
 
-export function recordHit(pkg: string, sizeBytes: number): void {
+// sizeBytes as sent, maybe compressed; bandwidth saved compares identityBytes
+// with the uncompressed upstream document
+export function recordHit(
+  pkg: string,
+  sizeBytes: number,
+  identityBytes: number,
+): void {
   const rawBytes = rawSizeMap.get(pkg) ?? null;
   insertEvent.run({
     $kind: "hit",
@@ -51,6 +104,18 @@ export function recordHit(pkg: string, sizeBytes: number): void {
     $rawBytes: rawBytes,
     $sizeBytes: sizeBytes,
     $elapsedMs: null,
+    $identityBytes: identityBytes,
+  });
+}
+
+export function recordNotModified(pkg: string): void {
+  insertEvent.run({
+    $kind: "not_modified",
+    $package: pkg,
+    $rawBytes: null,
+    $sizeBytes: null,
+    $elapsedMs: null,
+    $identityBytes: null,
   });
 }
 
@@ -65,6 +130,7 @@ export function recordMiss(
     $rawBytes: null,
     $sizeBytes: sizeBytes,
     $elapsedMs: elapsedMs,
+    $identityBytes: null,
   });
 }
 
@@ -80,6 +146,7 @@ export function recordStrip(
     $rawBytes: rawBytes,
     $sizeBytes: sizeBytes,
     $elapsedMs: null,
+    $identityBytes: null,
   });
 }
 
@@ -95,6 +162,7 @@ export function recordSync(
     $rawBytes: rawBytes,
     $sizeBytes: sizeBytes,
     $elapsedMs: null,
+    $identityBytes: null,
   });
 }
 
@@ -110,6 +178,7 @@ export function recordPrefetch(
     $rawBytes: rawBytes,
     $sizeBytes: sizeBytes,
     $elapsedMs: null,
+    $identityBytes: null,
   });
 }
 
@@ -120,17 +189,445 @@ export function recordPassthrough(reqPath: string, elapsedMs: number): void {
     $rawBytes: null,
     $sizeBytes: null,
     $elapsedMs: elapsedMs,
+    $identityBytes: null,
+  });
+}
+
+export function recordTarballHit(pkg: string, sizeBytes: number): void {
+  insertEvent.run({
+    $kind: "tarball_hit",
+    $package: pkg,
+    $rawBytes: null,
+    $sizeBytes: sizeBytes,
+    $elapsedMs: null,
+    $identityBytes: null,
   });
 }
 
+export function recordTarballMiss(
+  pkg: string,
+  sizeBytes: number,
+  elapsedMs: number,
+): void {
+  insertEvent.run({
+    $kind: "tarball_miss",
+    $package: pkg,
+    $rawBytes: null,
+    $sizeBytes: sizeBytes,
+    $elapsedMs: elapsedMs,
+    $identityBytes: null,
+  });
+}
+
+export function recordEviction(pkg: string, sizeBytes: number): void {
+  insertEvent.run({
+    $kind: "evict",
+    $package: pkg,
+    $rawBytes: null,
+    $sizeBytes: sizeBytes,
+    $elapsedMs: null,
+    $identityBytes: null,
+  });
+}
+
+// Written by the evictor after each pass: the cache's size on disk
+export function recordCacheSize(sizeBytes: number): void {
+  insertEvent.run({
+    $kind: "cache_size",
+    $package: null,
+    $rawBytes: null,
+    $sizeBytes: sizeBytes,
+    $elapsedMs: null,
+    $identityBytes: null,
+  });
+}
+
+// Last time each package was served, fetched or prefetched (epoch ms).
+// Sync refreshes don't count: they say nothing about whether anyone uses it.
+export function lastAccessTimes(): Map<string, number> {
+  const rows = db
+    .query(
+      `SELECT package, MAX(ts) as ts
+      FROM events
+      WHERE kind IN ('hit','not_modified','miss','strip','prefetch','tarball_hit','tarball_miss')
+      GROUP BY package`,
+    )
+    .all() as { package: string; ts: string }[];
+  const times = new Map<string, number>();
+  for (const row of rows) {
+    times.set(row.package, parseSqlTime(row.ts));
+  }
+  return times;
+}
+
+// Cache hits per package, including 304s: how much a stale copy would hurt
+export function hitCounts(pkgs: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  if (pkgs.length === 0) return counts;
+  const placeholders = pkgs.map(() => "?").join(",");
+  const rows = db
+    .query(
+      `SELECT package, COUNT(*) as hits
+      FROM events
+      WHERE kind IN ('hit','not_modified') AND package IN (${placeholders})
+      GROUP BY package`,
+    )
+    .all(...pkgs) as { package: string; hits: number }[];
+  for (const row of rows) counts.set(row.package, row.hits);
+  return counts;
+}
+
+// The most requested packages of the last `days`, most requested first
+export function topPackages(limit: number, days: number): string[] {
+  const rows = db
+    .query(
+      `SELECT package, COUNT(*) as requests
+      FROM events
+      WHERE kind IN ('hit','not_modified','miss') AND package IS NOT NULL
+        AND ts >= datetime('now', $since)
+      GROUP BY package
+      ORDER BY requests DESC
+      LIMIT $limit`,
+    )
+    .all({ $since: `-${days} days`, $limit: limit }) as { package: string }[];
+  return rows.map((row) => row.package);
+}
+
+// Packages the sync loop rewrote in the last `minutes`
+export function recentSyncs(minutes: number): number {
+  const row = db
+    .query(
+      `SELECT COUNT(*) as count FROM events
+      WHERE kind = 'sync' AND ts >= datetime('now', $since)`,
+    )
+    .get({ $since: `-${minutes} minutes` }) as { count: number };
+  return row.count;
+}
+
+export type Bucket = "hour" | "day";
+
+const BUCKETS: Record<Bucket, { table: string; format: string; ms: number }> = {
+  hour: {
+    table: "events_hourly",
+    format: "%Y-%m-%d %H:00:00",
+    ms: 60 * 60_000,
+  },
+  day: {
+    table: "events_daily",
+    format: "%Y-%m-%d 00:00:00",
+    ms: 24 * 60 * 60_000,
+  },
+};
+
+// One kind of event in one bucket, as stored in the rollup tables
+interface KindRow {
+  start: string;
+  kind: string;
+  count: number;
+  size_bytes: number;
+  saved_bytes: number;
+  p50_ms: number | null;
+  p95_ms: number | null;
+  p99_ms: number | null;
+}
+
+// Epoch ms → the format of events.ts
+function sqlTime(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 19).replace("T", " ");
+}
+
+// Nearest rank, of values sorted ascending
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+}
+
+// Raw events from `from` up to `to`, summed per bucket and kind
+function aggregateEvents(bucket: Bucket, from: string, to: string): KindRow[] {
+  const params = { $format: BUCKETS[bucket].format, $from: from, $to: to };
+  const rows = db
+    .query(
+      `SELECT
+        strftime($format, ts) as start,
+        kind,
+        COUNT(*) as count,
+        COALESCE(SUM(size_bytes), 0) as size_bytes,
+        COALESCE(SUM(CASE WHEN kind = 'hit' AND raw_bytes IS NOT NULL THEN raw_bytes - COALESCE(identity_bytes, size_bytes) ELSE 0 END), 0) as saved_bytes
+      FROM events
+      WHERE ts >= $from AND ts < $to
+      GROUP BY start, kind`,
+    )
+    .all(params) as KindRow[];
+
+  const latencies = new Map<string, number[]>();
+  const timed = db
+    .query(
+      `SELECT strftime($format, ts) as start, kind, elapsed_ms
+      FROM events
+      WHERE ts >= $from AND ts < $to AND elapsed_ms IS NOT NULL
+      ORDER BY elapsed_ms`,
+    )
+    .iterate(params) as IterableIterator<{
+    start: string;
+    kind: string;
+    elapsed_ms: number;
+  }>;
+  for (const row of timed) {
+    const key = `${row.start} ${row.kind}`;
+    const values = latencies.get(key) ?? [];
+    values.push(row.elapsed_ms);
+    latencies.set(key, values);
+  }
+
+  for (const row of rows) {
+    const sorted = latencies.get(`${row.start} ${row.kind}`);
+    row.p50_ms = sorted ? percentile(sorted, 0.5) : null;
+    row.p95_ms = sorted ? percentile(sorted, 0.95) : null;
+    row.p99_ms = sorted ? percentile(sorted, 0.99) : null;
+  }
+  return rows;
+}
+
+const selectRolledTo = db.query(
+  "SELECT rolled_to FROM rollup_state WHERE bucket = $bucket",
+);
+
+// Where the bucket's table ends and raw events take over
+function rolledTo(bucket: Bucket): string | null {
+  const row = selectRolledTo.get({ $bucket: bucket }) as {
+    rolled_to: string;
+  } | null;
+  return row?.rolled_to ?? null;
+}
+
+// Between passes while catching up, after an upgrade or a long stop
+const BACKFILL_DELAY = 1_000;
+// Raw events deleted per pass, so pruning a long history holds the
+// database a batch at a time
+const PRUNE_BATCH = 5_000;
+
+// Epoch ms of a time in the format of events.ts: SQLite's datetime('now')
+// is UTC without a zone designator
+function parseSqlTime(time: string): number {
+  return Date.parse(time.replace(" ", "T") + "Z");
+}
+
+// Start of the bucket holding the first event at or after `after`; null
+// when there is none
+function nextBucket(format: string, after: string): string | null {
+  const row = db
+    .query(
+      "SELECT strftime($format, MIN(ts)) as start FROM events WHERE ts >= $after",
+    )
+    .get({ $format: format, $after: after }) as { start: string | null };
+  return row.start;
+}
+
+// Sum the oldest complete bucket not yet in the bucket's table; true once
+// none are left
+function rollUp(bucket: Bucket): boolean {
+  const { table, format, ms } = BUCKETS[bucket];
+  const insert = db.query(
+    `INSERT OR REPLACE INTO ${table} (start, kind, count, size_bytes, saved_bytes, p50_ms, p95_ms, p99_ms)
+    VALUES ($start, $kind, $count, $size_bytes, $saved_bytes, $p50_ms, $p95_ms, $p99_ms)`,
+  );
+  let caughtUp = true;
+  // Immediate, so no event lands in the range between reading and marking it
+  db.transaction(() => {
+    const { until } = db
+      .query("SELECT strftime($format, 'now') as until")
+      .get({ $format: format }) as { until: string };
+    // Buckets without events are skipped, not summed one pass each
+    const from = nextBucket(format, rolledTo(bucket) ?? "") ?? until;
+    const to = from < until ? sqlTime(parseSqlTime(from) + ms) : until;
+    for (const row of aggregateEvents(bucket, from, to)) {
+      insert.run({
+        $start: row.start,
+        $kind: row.kind,
+        $count: row.count,
+        $size_bytes: row.size_bytes,
+        $saved_bytes: row.saved_bytes,
+        $p50_ms: row.p50_ms,
+        $p95_ms: row.p95_ms,
+        $p99_ms: row.p99_ms,
+      });
+    }
+    db.query(
+      "INSERT OR REPLACE INTO rollup_state (bucket, rolled_to) VALUES ($bucket, $to)",
+    ).run({ $bucket: bucket, $to: to });
+    caughtUp = to === until;
+  }).immediate();
+  return caughtUp;
+}
+
+// Delete raw events past the retention that both rollups have counted, up
+// to PRUNE_BATCH of them. The latest event of each kind for each package
+// stays: the eviction LRU, the raw sizes behind bandwidth savings and the
+// cache totals read those.
+function pruneEvents(): number {
+  const hourly = rolledTo("hour");
+  const daily = rolledTo("day");
+  if (!STATS_RETENTION_DAYS || !hourly || !daily) return 0;
+  const { cutoff } = db
+    .query("SELECT datetime('now', $age) as cutoff")
+    .get({ $age: `-${STATS_RETENTION_DAYS} days` }) as { cutoff: string };
+  // Whichever comes first
+  const before = [cutoff, hourly, daily].sort()[0];
+  return db
+    .query(
+      `DELETE FROM events WHERE id IN (
+        SELECT id FROM events AS old
+        WHERE ts < $before
+          AND (kind = 'passthrough' OR EXISTS (
+            SELECT 1 FROM events AS later
+            WHERE later.kind = old.kind
+              AND later.package IS old.package
+              AND later.id > old.id
+          ))
+        LIMIT $batch
+      )`,
+    )
+    .run({ $before: before, $batch: PRUNE_BATCH }).changes;
+}
+
+// A pass every ROLLUP_INTERVAL, or every BACKFILL_DELAY while buckets or
+// prunable events are left over. Each pass schedules the next, so they
+// never overlap. Run by the API process, off the registry's event loop.
+export function startRollups(): void {
+  const run = () => {
+    let behind = false;
+    try {
+      const hourly = rollUp("hour");
+      const daily = rollUp("day");
+      const pruned = pruneEvents();
+      if (pruned > 0) {
+        console.log(
+          `stats: pruned ${pruned} events older than ${STATS_RETENTION_DAYS} days`,
+        );
+      }
+      behind = !hourly || !daily || pruned === PRUNE_BATCH;
+    } catch (err) {
+      console.error(`  ✗ rollup error: ${(err as Error).message}`);
+    }
+    setTimeout(run, behind ? BACKFILL_DELAY : ROLLUP_INTERVAL).unref();
+  };
+  run();
+}
+
+export interface StatsBucket {
+  // ISO 8601, UTC
+  start: string;
+  // Package documents: hits include 304s
+  requests: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  bandwidthServed: number;
+  bandwidthSaved: number;
+  // Upstream fetch time of package document misses, in ms
+  latency: { p50: number; p95: number; p99: number } | null;
+}
+
+// Buckets from the one holding `from` to the one holding `to` (epoch ms),
+// oldest first; those without events are zeros. Rolled up buckets come from
+// their table, the rest from raw events.
+export function statsHistory(
+  bucket: Bucket,
+  from: number,
+  to: number,
+): StatsBucket[] {
+  const { table, ms } = BUCKETS[bucket];
+  const first = Math.floor(from / ms) * ms;
+  const last = Math.floor(to / ms) * ms + ms;
+  const fromTs = sqlTime(first);
+  const toTs = sqlTime(last);
+
+  const rows = db.transaction(() => {
+    let split = rolledTo(bucket) ?? fromTs;
+    if (split < fromTs) split = fromTs;
+    if (split > toTs) split = toTs;
+    return [
+      ...(db
+        .query(`SELECT * FROM ${table} WHERE start >= $from AND start < $to`)
+        .all({ $from: fromTs, $to: split }) as KindRow[]),
+      ...aggregateEvents(bucket, split, toTs),
+    ];
+  })();
+
+  const byStart = new Map<string, Map<string, KindRow>>();
+  for (const row of rows) {
+    const kinds = byStart.get(row.start) ?? new Map<string, KindRow>();
+    kinds.set(row.kind, row);
+    byStart.set(row.start, kinds);
+  }
+
+  const buckets: StatsBucket[] = [];
+  for (let t = first; t < last; t += ms) {
+    const kinds = byStart.get(sqlTime(t));
+    const count = (kind: string) => kinds?.get(kind)?.count ?? 0;
+    const hit = kinds?.get("hit");
+    const miss = kinds?.get("miss");
+    const hits = count("hit") + count("not_modified");
+    const misses = count("miss");
+    buckets.push({
+      start: new Date(t).toISOString(),
+      requests: hits + misses + count("passthrough"),
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+      bandwidthServed: hit?.size_bytes ?? 0,
+      bandwidthSaved: hit?.saved_bytes ?? 0,
+      latency:
+        miss?.p50_ms != null
+          ? { p50: miss.p50_ms, p95: miss.p95_ms!, p99: miss.p99_ms! }
+          : null,
+    });
+  }
+  return buckets;
+}
+
+interface KindTotals {
+  count: number;
+  size_bytes: number;
+  saved_bytes: number;
+}
+
+// All-time sums per kind: the daily rollups plus the events since
+function totalsByKind(): Map<string, KindTotals> {
+  const rows = db.transaction(() =>
+    db
+      .query(
+        `SELECT kind, SUM(count) as count, SUM(size_bytes) as size_bytes, SUM(saved_bytes) as saved_bytes
+        FROM (
+          SELECT kind, count, size_bytes, saved_bytes FROM events_daily
+          UNION ALL
+          SELECT
+            kind,
+            1,
+            COALESCE(size_bytes, 0),
+            CASE WHEN kind = 'hit' AND raw_bytes IS NOT NULL THEN raw_bytes - COALESCE(identity_bytes, size_bytes) ELSE 0 END
+          FROM events
+          WHERE ts >= $since
+        )
+        GROUP BY kind`,
+      )
+      .all({ $since: rolledTo("day") ?? "" }),
+  )() as ({ kind: string } & KindTotals)[];
+  return new Map(rows.map((row) => [row.kind, row]));
+}
+
 export interface Stats {
   cache: {
     packages: number;
     totalBytes: number;
+    // Packuments and tarballs on disk, as of the last eviction pass
+    diskBytes: number | null;
+    evictions: number;
+    evictedBytes: number;
   };
   requests: {
     total: number;
     hits: number;
+    notModified: number;
     misses: number;
     passthroughs: number;
     hitRate: number;
@@ -147,45 +644,40 @@ export interface Stats {
   prefetch: {
     packagesPrefetched: number;
   };
+  tarballs: {
+    hits: number;
+    misses: number;
+    servedFromCache: number;
+  };
   uptime: number;
 }
 
 export function getStats(): Stats {
-  const counts = db
-    .query(
-      `SELECT
-        SUM(CASE WHEN kind IN ('hit','miss','passthrough') THEN 1 ELSE 0 END) as total,
-        SUM(CASE WHEN kind = 'hit' THEN 1 ELSE 0 END) as hits,
-        SUM(CASE WHEN kind = 'miss' THEN 1 ELSE 0 END) as misses,
-        SUM(CASE WHEN kind = 'passthrough' THEN 1 ELSE 0 END) as passthroughs
-      FROM events`,
-    )
-    .get() as {
-    total: number;
-    hits: number;
-    misses: number;
-    passthroughs: number;
+  const totals = totalsByKind();
+  const count = (kind: string) => totals.get(kind)?.count ?? 0;
+  const bytes = (kind: string) => totals.get(kind)?.size_bytes ?? 0;
+
+  const counts = {
+    total:
+      count("hit") +
+      count("not_modified") +
+      count("miss") +
+      count("passthrough"),
+    hits: count("hit"),
+    not_modified: count("not_modified"),
+    misses: count("miss"),
+    passthroughs: count("passthrough"),
   };
 
-  const bandwidth = db
-    .query(
-      `SELECT
-        COALESCE(SUM(size_bytes), 0) as total_served,
-        COALESCE(SUM(CASE WHEN raw_bytes IS NOT NULL THEN raw_bytes - size_bytes ELSE 0 END), 0) as total_saved
-      FROM events
-      WHERE kind = 'hit'`,
-    )
-    .get() as { total_served: number; total_saved: number };
+  const bandwidth = {
+    total_served: bytes("hit"),
+    total_saved: totals.get("hit")?.saved_bytes ?? 0,
+  };
 
+  // Pruning keeps the latest event of each kind for each package
   const syncStats = db
-    .query(
-      `SELECT
-        COUNT(*) as packages_updated,
-        MAX(ts) as last_sync
-      FROM events
-      WHERE kind = 'sync'`,
-    )
-    .get() as { packages_updated: number; last_sync: string | null };
+    .query("SELECT MAX(ts) as last_sync FROM events WHERE kind = 'sync'")
+    .get() as { last_sync: string | null };
 
   const cacheStats = db
     .query(
@@ -194,29 +686,39 @@ export function getStats(): Stats {
         COALESCE(SUM(size_bytes), 0) as total_bytes
       FROM events
       WHERE kind = 'strip'
-        AND id IN (SELECT MAX(id) FROM events WHERE kind = 'strip' GROUP BY package)`,
+        AND id IN (SELECT MAX(id) FROM events WHERE kind = 'strip' GROUP BY package)
+        AND NOT EXISTS (
+          SELECT 1 FROM events e
+          WHERE e.kind = 'evict' AND e.package = events.package AND e.id > events.id
+        )`,
     )
     .get() as { packages: number; total_bytes: number };
 
-  const prefetchStats = db
+  const diskStats = db
     .query(
-      "SELECT COUNT(*) as count FROM events WHERE kind = 'prefetch'",
+      "SELECT size_bytes as disk_bytes FROM events WHERE kind = 'cache_size' ORDER BY id DESC LIMIT 1",
     )
-    .get() as { count: number };
+    .get() as { disk_bytes: number } | null;
 
-  const hitsPlusMisses = counts.hits + counts.misses;
+  // A 304 is a cache hit that didn't need a body
+  const cacheHits = counts.hits + counts.not_modified;
+  const hitsPlusMisses = cacheHits + counts.misses;
 
   return {
     cache: {
       packages: cacheStats.packages,
       totalBytes: cacheStats.total_bytes,
+      diskBytes: diskStats?.disk_bytes ?? null,
+      evictions: count("evict"),
+      evictedBytes: bytes("evict"),
     },
     requests: {
       total: counts.total,
       hits: counts.hits,
+      notModified: counts.not_modified,
       misses: counts.misses,
       passthroughs: counts.passthroughs,
-      hitRate: hitsPlusMisses > 0 ? counts.hits / hitsPlusMisses : 0,
+      hitRate: hitsPlusMisses > 0 ? cacheHits / hitsPlusMisses : 0,
     },
     bandwidth: {
       totalServed: bandwidth.total_served,
@@ -228,11 +730,16 @@ export function getStats(): Stats {
           : 0,
     },
     sync: {
-      packagesUpdated: syncStats.packages_updated,
+      packagesUpdated: count("sync"),
       lastSync: syncStats.last_sync,
     },
     prefetch: {
-      packagesPrefetched: prefetchStats.count,
+      packagesPrefetched: count("prefetch"),
+    },
+    tarballs: {
+      hits: count("tarball_hit"),
+      misses: count("tarball_miss"),
+      servedFromCache: bytes("tarball_hit"),
     },
     uptime: Math.floor((Date.now() - startedAt) / 1000),
   };
@@ -0,0 +1,364 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import fsp from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  LOCAL_TARBALL_ORIGIN,
+  type NpmPackageMetadata,
+  type NpmVersionEntry,
+} from "./strip.ts";
+import { writePackument, removePackument } from "./cache.ts";
+import { writeFileAtomic } from "./atomic.ts";
+import { packageDir } from "./names.ts";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+// Published packages are the only copy, so they live under data/, not cache/
+const STORAGE_DIR =
+  process.env.STORAGE_DIR ?? path.join(__dirname, "..", "data", "packages");
+
+fs.mkdirSync(STORAGE_DIR, { recursive: true });
+migrateStorageLayout();
+
+// Scoped packages were stored as "@scope%2fname"; they now get a scope
+// directory like the cache
+function migrateStorageLayout(): void {
+  for (const entry of fs.readdirSync(STORAGE_DIR)) {
+    if (!entry.includes("%2f")) continue;
+    const dest = packageDir(STORAGE_DIR, entry.replace("%2f", "/"));
+    if (fs.existsSync(dest)) continue;
+    fs.mkdirSync(path.dirname(dest), { recursive: true });
+    fs.renameSync(path.join(STORAGE_DIR, entry), dest);
+  }
+}
+
+// Carries the HTTP status the registry answers with
+export class RegistryError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export interface Maintainer {
+  name: string;
+  email?: string;
+}
+
+// The stored document: a packument plus the CouchDB-style revision npm
+// sends back on unpublish and deprecate
+export interface LocalPackument extends NpmPackageMetadata {
+  _id: string;
+  _rev: string;
+  time: Record<string, string>;
+  // Users who may write to the package; the first publisher to begin with
+  maintainers?: Maintainer[];
+}
+
+interface Attachment {
+  content_type?: string;
+  data: string;
+  length?: number;
+}
+
+// Body of PUT /:pkg as sent by npm publish, deprecate and unpublish
+export interface PublishBody {
+  name?: string;
+  "dist-tags"?: Record<string, string>;
+  versions?: Record<string, NpmVersionEntry>;
+  _attachments?: Record<string, Attachment>;
+  [key: string]: unknown;
+}
+
+function pkgDir(pkg: string): string {
+  return packageDir(STORAGE_DIR, pkg);
+}
+
+function packumentPath(pkg: string): string {
+  return path.join(pkgDir(pkg), "package.json");
+}
+
+// "@ourco/ui", "1.2.0" → "ui-1.2.0.tgz"
+function tarballFile(pkg: string, version: string): string {
+  return `${pkg.split("/").pop()}-${version}.tgz`;
+}
+
+export function localTarballPath(pkg: string, version: string): string {
+  return path.join(pkgDir(pkg), tarballFile(pkg, version));
+}
+
+// A name is owned locally once anything has been published under it
+export function isLocalPackage(pkg: string): boolean {
+  return fs.existsSync(packumentPath(pkg));
+}
+
+export async function readLocalPackument(
+  pkg: string,
+): Promise<LocalPackument | null> {
+  try {
+    return JSON.parse(await fsp.readFile(packumentPath(pkg), "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+// Write the stripped and abbreviated variants where the proxy serves cached
+// documents from, so local packages take the same path as cached ones
+export async function cacheLocalPackument(doc: LocalPackument): Promise<void> {
+  await writePackument(doc);
+}
+
+async function save(doc: LocalPackument): Promise<void> {
+  const [count] = doc._rev.split("-");
+  const now = new Date().toISOString();
+  doc._rev = `${Number(count) + 1}-${crypto.randomBytes(16).toString("hex")}`;
+  doc.time.modified = now;
+
+  await writeFileAtomic(packumentPath(doc.name), JSON.stringify(doc));
+  await cacheLocalPackument(doc);
+}
+
+// Writes to one package are serialized; each is a read-modify-write of its
+// packument
+const locks = new Map<string, Promise<unknown>>();
+
+function withLock<T>(pkg: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(pkg) ?? Promise.resolve();
+  const next = previous.catch(() => {}).then(fn);
+  locks.set(pkg, next);
+  next
+    .catch(() => {})
+    .finally(() => {
+      if (locks.get(pkg) === next) locks.delete(pkg);
+    });
+  return next;
+}
+
+// Packages published before maintainers were recorded have none: the ACLs
+// alone decide until their next publish
+function checkMaintainer(doc: LocalPackument, username: string): void {
+  const maintainers = doc.maintainers ?? [];
+  if (maintainers.length && !maintainers.some((m) => m.name === username)) {
+    throw new RegistryError(
+      403,
+      `${username} is not a maintainer of ${doc.name}`,
+    );
+  }
+}
+
+function checkRev(doc: LocalPackument, rev: string | null): void {
+  if (rev !== null && rev !== doc._rev) {
+    throw new RegistryError(409, `revision ${rev} is out of date`);
+  }
+}
+
+function integrityOf(data: Buffer): { integrity: string; shasum: string } {
+  return {
+    integrity:
+      "sha512-" + crypto.createHash("sha512").update(data).digest("base64"),
+    shasum: crypto.createHash("sha1").update(data).digest("hex"),
+  };
+}
+
+// npm publish: one new version plus its tarball as a base64 attachment
+export function publishVersion(
+  pkg: string,
+  body: PublishBody,
+  username: string,
+): Promise<LocalPackument> {
+  return withLock(pkg, async () => {
+    if (body.name !== pkg) {
+      throw new RegistryError(400, `name ${body.name} does not match URL`);
+    }
+    const versions = Object.entries(body.versions ?? {});
+    const attachments = Object.values(body._attachments ?? {});
+    if (versions.length !== 1 || attachments.length !== 1) {
+      throw new RegistryError(400, "expected exactly one version and tarball");
+    }
+    const [[version, manifest]] = versions;
+    // The version becomes part of a file name
+    if (!/^[0-9A-Za-z][0-9A-Za-z.+-]*$/.test(version)) {
+      throw new RegistryError(400, `invalid version ${version}`);
+    }
+    const data = Buffer.from(attachments[0].data, "base64");
+
+    const existing = await readLocalPackument(pkg);
+    if (existing) checkMaintainer(existing, username);
+    // Unpublished versions keep their time entry and can't be reused
+    if (existing?.time[version]) {
+      throw new RegistryError(
+        403,
+        `cannot publish over previously published version ${version}`,
+      );
+    }
+
+    const computed = integrityOf(data);
+    const dist = manifest.dist ?? {};
+    if (
+      (dist.integrity && dist.integrity !== computed.integrity) ||
+      (dist.shasum && dist.shasum !== computed.shasum)
+    ) {
+      throw new RegistryError(400, "tarball does not match dist.integrity");
+    }
+
+    const now = new Date().toISOString();
+    const doc: LocalPackument = existing ?? {
+      _id: pkg,
+      _rev: "0-0",
+      name: pkg,
+      "dist-tags": {},
+      versions: {},
+      time: { created: now },
+    };
+    if (!doc.maintainers?.length) doc.maintainers = [{ name: username }];
+
+    await writeFileAtomic(localTarballPath(pkg, version), data);
+
+    doc.versions[version] = {
+      ...manifest,
+      name: pkg,
+      version,
+      dist: {
+        ...dist,
+        ...computed,
+        tarball: `${LOCAL_TARBALL_ORIGIN}/${pkg}/-/${tarballFile(pkg, version)}`,
+      },
+    };
+    doc["dist-tags"] = {
+      ...doc["dist-tags"],
+      ...(body["dist-tags"] ?? { latest: version }),
+    };
+    for (const field of ["description", "readme", "license", "repository"]) {
+      if (body[field] !== undefined) doc[field] = body[field];
+    }
+    doc.time[version] = now;
+    await save(doc);
+    return doc;
+  });
+}
+
+// npm deprecate, partial unpublish and owner changes send the whole
+// packument back with versions removed, "deprecated" or maintainers
+// changed. Only those edits and dist-tags are taken from it; manifests and
+// dist stay as published.
+export function updatePackument(
+  pkg: string,
+  rev: string | null,
+  body: PublishBody,
+  username: string,
+): Promise<LocalPackument | null> {
+  return withLock(pkg, async () => {
+    const doc = await readLocalPackument(pkg);
+    if (!doc) throw new RegistryError(404, `${pkg} is not published here`);
+    checkMaintainer(doc, username);
+    checkRev(doc, rev);
+
+    if (body.maintainers !== undefined) {
+      doc.maintainers = parseMaintainers(body.maintainers);
+    }
+
+    const incoming = body.versions ?? {};
+    for (const version of Object.keys(doc.versions)) {
+      const update = incoming[version];
+      if (!update) {
+        delete doc.versions[version];
+        await fsp.rm(localTarballPath(pkg, version), { force: true });
+        console.log(`  🗑 unpublished ${pkg}@${version}`);
+        continue;
+      }
+      if (update.deprecated)
+        doc.versions[version].deprecated = update.deprecated;
+      else delete doc.versions[version].deprecated;
+    }
+
+    if (Object.keys(doc.versions).length === 0) {
+      await removePackage(pkg);
+      return null;
+    }
+
+    doc["dist-tags"] = Object.fromEntries(
+      Object.entries(body["dist-tags"] ?? doc["dist-tags"]).filter(
+        ([, version]) => doc.versions[version],
+      ),
+    );
+    // Unpublishing latest moves it to the newest remaining version
+    if (!doc["dist-tags"].latest) {
+      doc["dist-tags"].latest = Object.keys(doc.versions).sort(
+        (a, b) => Date.parse(doc.time[b]) - Date.parse(doc.time[a]),
+      )[0];
+    }
+    await save(doc);
+    return doc;
+  });
+}
+
+function parseMaintainers(value: unknown): Maintainer[] {
+  const valid =
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((m) => typeof m?.name === "string" && m.name !== "");
+  if (!valid) {
+    throw new RegistryError(400, "maintainers must be a list of users");
+  }
+  return value.map(({ name, email }: Maintainer) => ({ name, email }));
+}
+
+async function removePackage(pkg: string): Promise<void> {
+  await fsp.rm(pkgDir(pkg), { recursive: true, force: true });
+  await removePackument(pkg);
+  console.log(`  🗑 unpublished ${pkg}`);
+}
+
+// npm unpublish of a whole package
+export function unpublishPackage(
+  pkg: string,
+  rev: string | null,
+  username: string,
+): Promise<void> {
+  return withLock(pkg, async () => {
+    const doc = await readLocalPackument(pkg);
+    if (!doc) throw new RegistryError(404, `${pkg} is not published here`);
+    checkMaintainer(doc, username);
+    checkRev(doc, rev);
+    await removePackage(pkg);
+  });
+}
+
+export function setDistTag(
+  pkg: string,
+  tag: string,
+  version: string,
+  username: string,
+): Promise<LocalPackument> {
+  return withLock(pkg, async () => {
+    const doc = await readLocalPackument(pkg);
+    if (!doc) throw new RegistryError(404, `${pkg} is not published here`);
+    checkMaintainer(doc, username);
+    if (!doc.versions[version]) {
+      throw new RegistryError(404, `${pkg}@${version} does not exist`);
+    }
+    doc["dist-tags"][tag] = version;
+    await save(doc);
+    return doc;
+  });
+}
+
+export function removeDistTag(
+  pkg: string,
+  tag: string,
+  username: string,
+): Promise<LocalPackument> {
+  return withLock(pkg, async () => {
+    const doc = await readLocalPackument(pkg);
+    if (!doc) throw new RegistryError(404, `${pkg} is not published here`);
+    checkMaintainer(doc, username);
+    if (tag === "latest") {
+      throw new RegistryError(400, "the latest tag cannot be removed");
+    }
+    delete doc["dist-tags"][tag];
+    await save(doc);
+    return doc;
+  });
+}
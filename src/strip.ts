@@ -1,19 +1,76 @@
-// Fields to keep per version entry
-const KEEP_VERSION_FIELDS = new Set([
+import { UPSTREAMS } from "./config.ts";
+
+// The strip profile: which fields survive stripping. Cached documents are
+// written under a profile version; bump it whenever the field lists change
+// and caches built under an older profile are discarded and rebuilt.
+export const STRIP_PROFILE = {
+  version: 4,
+  // Per version entry: everything npm, pnpm, yarn and bun read at install time
+  versionFields: [
+    "name",
+    "version",
+    "deprecated",
+    "dependencies",
+    "optionalDependencies",
+    "peerDependencies",
+    "peerDependenciesMeta",
+    // Not installed, but part of the abbreviated document built from this one
+    "devDependencies",
+    "bundleDependencies",
+    "bundledDependencies",
+    "acceptDependencies",
+    "bin",
+    "directories",
+    "engines",
+    "os",
+    "cpu",
+    "libc",
+    "funding",
+    "hasInstallScript",
+    "_hasShrinkwrap",
+  ],
+  // Inside dist: integrity plus what `npm audit signatures` verifies
+  distFields: [
+    "tarball",
+    "integrity",
+    "shasum",
+    "fileCount",
+    "unpackedSize",
+    "signatures",
+    "attestations",
+  ],
+  // Inside time, besides the publish time of every version that is kept —
+  // release-age policies (npm --before, pnpm minimumReleaseAge) read these
+  timeFields: ["created", "modified"],
+} as const;
+
+const KEEP_VERSION_FIELDS = new Set<string>(STRIP_PROFILE.versionFields);
+const KEEP_DIST_FIELDS = new Set<string>(STRIP_PROFILE.distFields);
+const KEEP_TIME_FIELDS = new Set<string>(STRIP_PROFILE.timeFields);
+
+// Version fields of the abbreviated ("corgi") document, per the npm registry spec
+const ABBREVIATED_VERSION_FIELDS = new Set([
   "name",
   "version",
+  "deprecated",
   "dependencies",
   "optionalDependencies",
+  "devDependencies",
+  "bundleDependencies",
   "peerDependencies",
   "peerDependenciesMeta",
   "bin",
+  "directories",
   "engines",
-  "os",
+  "_hasShrinkwrap",
+  "hasInstallScript",
   "cpu",
+  "os",
 ]);
 
-// Fields to keep inside dist
-const KEEP_DIST_FIELDS = new Set(["tarball", "integrity", "shasum"]);
+const INSTALL_SCRIPTS = ["preinstall", "install", "postinstall"];
+
+export const ABBREVIATED_CONTENT_TYPE = "application/vnd.npm.install-v1+json";
 
 interface NpmDist {
   tarball?: string;
@@ -22,9 +79,12 @@ interface NpmDist {
   [key: string]: unknown;
 }
 
-interface NpmVersionEntry {
+export interface NpmVersionEntry {
   name?: string;
   version?: string;
+  deprecated?: string;
+  scripts?: Record<string, string>;
+  hasInstallScript?: boolean;
   dependencies?: Record<string, string>;
   optionalDependencies?: Record<string, string>;
   peerDependencies?: Record<string, string>;
@@ -41,6 +101,7 @@ export interface NpmPackageMetadata {
   name: string;
   "dist-tags": Record<string, string>;
   versions: Record<string, NpmVersionEntry>;
+  time?: Record<string, string>;
   [key: string]: unknown;
 }
 
@@ -48,6 +109,28 @@ interface StrippedMetadata {
   name: string;
   "dist-tags": Record<string, string>;
   versions: Record<string, Record<string, unknown>>;
+  time?: Record<string, string>;
+}
+
+export interface AbbreviatedMetadata {
+  name: string;
+  modified?: string;
+  "dist-tags": Record<string, string>;
+  versions: Record<string, Record<string, unknown>>;
+}
+
+// Older packuments only carry the scripts themselves, not the flag
+function hasInstallScript(entry: NpmVersionEntry): boolean {
+  const scripts = entry.scripts;
+  return !!scripts && INSTALL_SCRIPTS.some((name) => scripts[name]);
+}
+
+function pickDist(dist: NpmDist): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const key of KEEP_DIST_FIELDS) {
+    if (dist[key] !== undefined) out[key] = dist[key];
+  }
+  return out;
 }
 
 export function stripMetadata(original: NpmPackageMetadata): StrippedMetadata {
@@ -62,16 +145,109 @@ export function stripMetadata(original: NpmPackageMetadata): StrippedMetadata {
     for (const key of KEEP_VERSION_FIELDS) {
       if (entry[key] !== undefined) slim[key] = entry[key];
     }
-    if (entry.dist) {
-      const dist: Record<string, unknown> = {};
-      for (const key of KEEP_DIST_FIELDS) {
-        if (entry.dist[key as keyof NpmDist] !== undefined)
-          dist[key] = entry.dist[key as keyof NpmDist];
-      }
-      slim.dist = dist;
+    if (slim.hasInstallScript === undefined && hasInstallScript(entry)) {
+      slim.hasInstallScript = true;
     }
+    if (entry.dist) slim.dist = pickDist(entry.dist);
     stripped.versions[ver] = slim;
   }
 
+  if (original.time) {
+    const time: Record<string, string> = {};
+    for (const [key, ts] of Object.entries(original.time)) {
+      if (KEEP_TIME_FIELDS.has(key) || Object.hasOwn(stripped.versions, key)) {
+        time[key] = ts;
+      }
+    }
+    stripped.time = time;
+  }
+
   return stripped;
 }
+
+// time.modified, or the newest publish time when a registry omits it
+function lastModified(original: NpmPackageMetadata): string | undefined {
+  const time = original.time;
+  if (!time) return undefined;
+  if (time.modified) return time.modified;
+  let newest: string | undefined;
+  for (const ts of Object.values(time)) {
+    if (!newest || Date.parse(ts) > Date.parse(newest)) newest = ts;
+  }
+  return newest;
+}
+
+// Build the abbreviated install document served for
+// Accept: application/vnd.npm.install-v1+json
+export function abbreviateMetadata(
+  original: NpmPackageMetadata,
+): AbbreviatedMetadata {
+  const abbreviated: AbbreviatedMetadata = {
+    name: original.name,
+    modified: lastModified(original),
+    "dist-tags": original["dist-tags"],
+    versions: {},
+  };
+  if (!abbreviated.modified) delete abbreviated.modified;
+
+  for (const [ver, entry] of Object.entries(original.versions)) {
+    const slim: Record<string, unknown> = {};
+    for (const key of ABBREVIATED_VERSION_FIELDS) {
+      if (entry[key] !== undefined) slim[key] = entry[key];
+    }
+    if (slim.hasInstallScript === undefined && hasInstallScript(entry)) {
+      slim.hasInstallScript = true;
+    }
+    if (entry.dist) slim.dist = pickDist(entry.dist);
+    abbreviated.versions[ver] = slim;
+  }
+
+  return abbreviated;
+}
+
+// True when the client asked for the abbreviated document (and didn't refuse it with q=0)
+export function acceptsAbbreviated(accept: string | undefined): boolean {
+  if (!accept) return false;
+  return accept.split(",").some((part) => {
+    const [type, ...params] = part.trim().split(";");
+    if (type.trim().toLowerCase() !== ABBREVIATED_CONTENT_TYPE) return false;
+    const q = params.find((p) => p.trim().startsWith("q="));
+    return !q || Number(q.trim().slice(2)) > 0;
+  });
+}
+
+// Stands in for the proxy's own URL in locally published packuments
+export const LOCAL_TARBALL_ORIGIN = "http://upm.local";
+
+// Matches the upstream origin of every dist.tarball in a serialized packument.
+// npmjs is always included: mirrors usually keep its tarball URLs.
+const UPSTREAM_ORIGINS = new Set([
+  "registry.npmjs.org",
+  "upm.local",
+  ...UPSTREAMS.map((u) => u.url.replace(/^https?:\/\//, "")),
+]);
+const ORIGINS_PATTERN = [...UPSTREAM_ORIGINS]
+  .map((origin) => origin.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+  .join("|");
+const UPSTREAM_TARBALL_RE = new RegExp(
+  '("tarball"\\s*:\\s*")https?://(?:' + ORIGINS_PATTERN + ")/",
+  "g",
+);
+const UPSTREAM_URL_RE = new RegExp(
+  "^https?://(?:" + ORIGINS_PATTERN + ")(/.+)$",
+);
+
+// Point dist.tarball URLs at the proxy. Works on the serialized document so
+// cached files keep their upstream URLs and are rewritten per request.
+export function rewriteTarballUrls(body: string, baseUrl: string): string {
+  const base = baseUrl.replace(/\/+$/, "");
+  // A replacer, so nothing in the base URL is read as a `$` pattern
+  return body.replace(UPSTREAM_TARBALL_RE, (_, prefix) => `${prefix}${base}/`);
+}
+
+// What a dist.tarball is requested as, here and upstream: its path past the
+// upstream origin. Null for tarballs hosted anywhere else.
+// "https://registry.npmjs.org/express/-/express-4.19.2.tgz" → "/express/-/express-4.19.2.tgz"
+export function upstreamTarballPath(url: string): string | null {
+  return url.match(UPSTREAM_URL_RE)?.[1] ?? null;
+}
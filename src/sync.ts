@@ -1,16 +1,82 @@
+import http from "node:http";
 import fs from "node:fs";
-import path from "node:path";
-import { fileURLToPath } from "node:url";
-import { stripMetadata, type NpmPackageMetadata } from "./strip.ts";
-import { recordSync } from "./stats.ts";
-
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const CACHE_DIR = path.join(__dirname, "..", "cache");
-const SEQ_FILE = path.join(__dirname, "..", "data", ".sync-seq");
-const CHANGES_BASE = "https://replicate.npmjs.com/registry/_changes";
-const REGISTRY = "https://registry.npmjs.org";
+import { ABBREVIATED_CONTENT_TYPE, type NpmPackageMetadata } from "./strip.ts";
+import { recordSync, recentSyncs } from "./stats.ts";
+import { createCounter, createGauge } from "./metrics.ts";
+import {
+  writePackument,
+  removePackument,
+  CACHE_DIR,
+  CACHE_CORGI,
+} from "./cache.ts";
+import { decompress } from "./encoding.ts";
+import {
+  fetchPackument,
+  openUpstream,
+  OFFLINE,
+  UPSTREAM_TIMEOUT_MS,
+} from "./upstream.ts";
+import { isLocalPackage, RegistryError } from "./storage.ts";
+import { authenticate, isAllowed, deny } from "./auth.ts";
+import { sendJson } from "./publish.ts";
+import {
+  parsePackagePath,
+  packageFile,
+  packageUrlPath,
+  isValidPackageName,
+  listPackageFiles,
+} from "./names.ts";
+import {
+  readSyncState,
+  enqueueChanges,
+  beginReconcile,
+  finishReconcile,
+  pendingRevalidations,
+  dueItems,
+  completeItem,
+  retryItem,
+  queueLength,
+  recordSyncError,
+  type QueueItem,
+  type QueuedChange,
+  type SyncState,
+} from "./queue.ts";
+
+// Run the sync loop inside the server rather than as `bun src/sync.ts`
+export const SYNC_IN_PROCESS = ["1", "true"].includes(
+  (process.env.SYNC ?? "").toLowerCase(),
+);
+// npm's CouchDB changes feed, or a mirror of it
+const CHANGES_BASE =
+  process.env.CHANGES_URL ?? "https://replicate.npmjs.com/registry/_changes";
 const POLL_INTERVAL = 10_000; // 10 seconds
 const CHANGES_LIMIT = 1000;
+// Packuments fetched at once by the refresh workers
+const SYNC_CONCURRENCY = Number(process.env.SYNC_CONCURRENCY) || 5;
+const IDLE_INTERVAL = 1_000;
+// Longer than this without a successful poll and the feed is no longer
+// trusted to account for everything that changed meanwhile
+const MAX_OUTAGE_MS = 24 * 60 * 60_000;
+// How long the feed's head position is reused when reporting lag
+const HEAD_TTL_MS = 30_000;
+
+let running = false;
+let head: { seq: string | null; at: number } = { seq: null, at: 0 };
+
+// Set by the loop, so only reported by the process running it
+const syncLag = createGauge(
+  "upm_sync_lag",
+  "Changes on the npm feed not yet looked at",
+);
+const lastPoll = createGauge(
+  "upm_sync_last_poll_timestamp_seconds",
+  "When the changes feed was last read, since the Unix epoch",
+);
+const refreshes = createCounter(
+  "upm_sync_refreshes_total",
+  "Cached packages rewritten or removed after an upstream change",
+  true,
+);
 
 interface Change {
   seq: number;
@@ -24,50 +90,247 @@ interface ChangesResponse {
   last_seq: number | string;
 }
 
-function readSeq(): string {
-  try {
-    return fs.readFileSync(SEQ_FILE, "utf8").trim();
-  } catch {
-    return "0";
+// Carries whether retrying could help
+class SyncError extends Error {
+  constructor(
+    message: string,
+    public retryable: boolean,
+  ) {
+    super(message);
   }
 }
 
-function writeSeq(seq: string | number): void {
-  fs.writeFileSync(SEQ_FILE, String(seq));
+async function fetchMetadata(
+  pkgName: string,
+): Promise<NpmPackageMetadata | null> {
+  const res = await fetchPackument(pkgName, packageUrlPath(pkgName)).response;
+  // Gone upstream: a deletion the feed didn't flag as one
+  if (res.status === 404) return null;
+  if (res.status !== 200) {
+    throw new SyncError(`upstream ${res.status}`, true);
+  }
+  const data = JSON.parse(res.body.toString("utf8")) as NpmPackageMetadata;
+  if (!data.versions || !data["dist-tags"]) {
+    throw new SyncError("not a packument", false);
+  }
+  return data;
 }
 
-function pkgCachePath(url: string): string {
-  const name = url.replace(/^\//, "");
-  return path.join(CACHE_DIR, name + ".json");
+async function removeCached(id: string): Promise<void> {
+  await removePackument(id);
+  refreshes.inc({ result: "removed" });
+  console.log(`  🗑 deleted ${id}`);
 }
 
-async function fetchMetadata(
-  pkgName: string,
-): Promise<NpmPackageMetadata | null> {
+// Replace a cached package with upstream's current document, or drop it
+// when upstream no longer has one
+async function refetch(pkg: string): Promise<"updated" | "removed"> {
+  const cachePath = packageFile(CACHE_DIR, pkg);
+  const metadata = await fetchMetadata(pkg);
+  if (!metadata) {
+    await removeCached(pkg);
+    return "removed";
+  }
+  const oldSize = fs.statSync(cachePath).size;
+  const { stripped } = await writePackument(
+    metadata,
+    cachePath,
+    packageFile(CACHE_CORGI, pkg),
+  );
+  recordSync(pkg, oldSize, Buffer.byteLength(stripped));
+  refreshes.inc({ result: "updated" });
+  console.log(`  ↻ updated ${pkg}`);
+  return "updated";
+}
+
+async function refresh(item: QueueItem): Promise<void> {
+  const cachePath = packageFile(CACHE_DIR, item.pkg);
+  // Evicted, or published here, since it was queued
+  if (!fs.existsSync(cachePath) || isLocalPackage(item.pkg)) return;
+
+  if (item.deleted) {
+    await removeCached(item.pkg);
+    return;
+  }
+  await refetch(item.pkg);
+}
+
+// The abbreviated document carries upstream's time.modified at a fraction of
+// the size of the full one. Null when upstream no longer has the package.
+async function upstreamModified(pkg: string): Promise<string | null> {
+  const { res } = await openUpstream({
+    pkg,
+    method: "GET",
+    path: packageUrlPath(pkg),
+    headers: { accept: ABBREVIATED_CONTENT_TYPE, "accept-encoding": "gzip" },
+  });
+  const chunks: Buffer[] = [];
+  for await (const chunk of res) chunks.push(chunk);
+  if (res.statusCode === 404) return null;
+  if (res.statusCode !== 200) {
+    throw new SyncError(`upstream ${res.statusCode}`, true);
+  }
+  const body = await decompress(
+    Buffer.concat(chunks),
+    res.headers["content-encoding"],
+  );
+  return JSON.parse(body.toString("utf8")).modified ?? null;
+}
+
+// Reconciliation: refresh only what upstream has changed since we cached it.
+// Our abbreviated copy carries the modified time it was built from; without
+// one on either side there's nothing to compare and the package is refreshed.
+async function revalidate(item: QueueItem): Promise<void> {
+  const cachePath = packageFile(CACHE_DIR, item.pkg);
+  if (!fs.existsSync(cachePath) || isLocalPackage(item.pkg)) return;
+  let cachedModified: string | undefined;
   try {
-    const res = await fetch(`${REGISTRY}/${pkgName}`, {
-      headers: { accept: "application/json" },
-    });
-    if (!res.ok) {
-      console.error(`  ✗ fetch ${pkgName}: ${res.status}`);
-      return null;
+    const corgiPath = packageFile(CACHE_CORGI, item.pkg);
+    cachedModified = JSON.parse(fs.readFileSync(corgiPath, "utf8")).modified;
+  } catch {}
+  const modified = await upstreamModified(item.pkg);
+  if (modified && modified === cachedModified) return;
+  await refresh(item);
+}
+
+// Refresh queued packages, SYNC_CONCURRENCY at a time, hottest first
+async function runWorkers(): Promise<void> {
+  const active = new Set<string>();
+  // A finished item frees a slot right away rather than at the next tick
+  let wake: (() => void) | null = null;
+
+  const run = async (item: QueueItem) => {
+    try {
+      await (item.revalidate ? revalidate(item) : refresh(item));
+      completeItem(item);
+    } catch (err) {
+      const message = (err as Error).message;
+      recordSyncError(`${item.pkg}: ${message}`);
+      const retryable = !(err instanceof SyncError) || err.retryable;
+      if (retryable && retryItem(item, message)) {
+        console.error(
+          `  ✗ fetch ${item.pkg}: ${message} (attempt ${item.attempts + 1}, will retry)`,
+        );
+      } else {
+        completeItem(item);
+        console.error(`  ✗ fetch ${item.pkg}: ${message}, giving up`);
+      }
+    } finally {
+      active.delete(item.pkg);
+      wake?.();
     }
-    return (await res.json()) as NpmPackageMetadata;
-  } catch (err) {
-    console.error(`  ✗ fetch ${pkgName}: ${(err as Error).message}`);
-    return null;
+  };
+
+  while (true) {
+    const free = SYNC_CONCURRENCY - active.size;
+    const items = free > 0 ? dueItems(free, active) : [];
+    for (const item of items) {
+      active.add(item.pkg);
+      run(item);
+    }
+    await new Promise<void>((resolve) => {
+      wake = resolve;
+      setTimeout(resolve, IDLE_INTERVAL);
+    });
+    wake = null;
   }
 }
 
+// "12345" and CouchDB's "12345-g1AAAA…" both order by the leading number
+function seqNumber(seq: string | number): number {
+  return parseInt(String(seq), 10);
+}
+
+// Where the feed stands now
+async function currentSeq(): Promise<string> {
+  const res = await fetch(`${CHANGES_BASE}?descending=true&limit=1`, {
+    signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`changes feed: ${res.status}`);
+  const seq = String(((await res.json()) as ChangesResponse).last_seq);
+  head = { seq, at: Date.now() };
+  return seq;
+}
+
+// currentSeq, reused for a while: status requests shouldn't each hit the
+// feed. Unknown offline, where nothing may be fetched.
+async function upstreamHead(): Promise<string | null> {
+  if (OFFLINE) return null;
+  if (Date.now() - head.at > HEAD_TTL_MS) {
+    await currentSeq().catch(() => {
+      head = { seq: null, at: Date.now() };
+    });
+  }
+  return head.seq;
+}
+
+// Why the stored position can't be trusted, or null when it can. Asking
+// the feed where it stands is left to startup.
+export async function seqProblem(
+  state: SyncState,
+  atStartup: boolean,
+): Promise<string | null> {
+  if (state.seq === null) return "no stored seq";
+  if (isNaN(seqNumber(state.seq))) return `unreadable seq "${state.seq}"`;
+  if (state.polledAt !== null && Date.now() - state.polledAt > MAX_OUTAGE_MS) {
+    const hours = Math.round((Date.now() - state.polledAt) / 3_600_000);
+    return `no successful poll for ${hours}h`;
+  }
+  if (!atStartup) return null;
+  const current = await currentSeq();
+  if (seqNumber(state.seq) > seqNumber(current)) {
+    return `seq ${state.seq} is ahead of the feed (${current})`;
+  }
+  return null;
+}
+
+// Instead of replaying the feed, revalidate every cached package against
+// upstream and resume from where the feed stands now
+export async function startReconcile(reason: string): Promise<void> {
+  const target = await currentSeq();
+  const pkgs = [...listPackageFiles(CACHE_DIR).keys()].filter(
+    (pkg) => !isLocalPackage(pkg),
+  );
+  beginReconcile(pkgs, target);
+  console.log(
+    `sync: ${reason} — reconciling ${pkgs.length} cached packages, then resuming at seq ${target}`,
+  );
+}
+
 async function pollChanges(): Promise<void> {
   let backoff = POLL_INTERVAL;
+  let atStartup = true;
 
   while (true) {
     try {
-      const since = readSeq();
+      const state = readSyncState();
+
+      // The feed waits until the pass is done; its position is adopted then
+      if (state.reconcileSeq !== null) {
+        if (finishReconcile()) {
+          console.log(
+            `sync: reconciliation complete, resuming at seq ${state.reconcileSeq}`,
+          );
+          continue;
+        }
+        await sleep(POLL_INTERVAL);
+        continue;
+      }
+
+      const problem = await seqProblem(state, atStartup);
+      atStartup = false;
+      if (problem) {
+        await startReconcile(problem);
+        continue;
+      }
+
+      const since = state.seq!;
       const url = `${CHANGES_BASE}?since=${since}&limit=${CHANGES_LIMIT}`;
 
-      const res = await fetch(url);
+      // A feed that stops answering fails the poll instead of stalling sync
+      const res = await fetch(url, {
+        signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+      });
 
       if (res.status === 429) {
         console.log(`  ⏳ rate limited, backing off ${backoff / 1000}s`);
@@ -78,6 +341,7 @@ async function pollChanges(): Promise<void> {
 
       if (!res.ok) {
         console.error(`  ✗ changes feed: ${res.status}`);
+        recordSyncError(`changes feed: ${res.status}`);
         await sleep(backoff);
         continue;
       }
@@ -86,11 +350,18 @@ async function pollChanges(): Promise<void> {
       backoff = POLL_INTERVAL;
 
       const data = (await res.json()) as ChangesResponse;
-      let deleted = 0;
       let skipped = 0;
 
-      // Handle deletions synchronously (fast, no network)
-      const toFetch: { id: string; cachePath: string }[] = [];
+      // A feed that was reset or restored answers from before where we were
+      if (seqNumber(data.last_seq) < seqNumber(since)) {
+        await startReconcile(
+          `feed went back from seq ${since} to ${data.last_seq}`,
+        );
+        continue;
+      }
+
+      // Only packages we have cached are worth refreshing
+      const changes: QueuedChange[] = [];
       for (const change of data.results) {
         // Skip legacy uppercase package names — npm enforces lowercase,
         // and on case-insensitive filesystems (macOS) "Fresh" would match "fresh.json"
@@ -98,58 +369,49 @@ async function pollChanges(): Promise<void> {
           skipped++;
           continue;
         }
-
-        const cachePath = pkgCachePath("/" + change.id);
-
-        if (!fs.existsSync(cachePath)) {
+        // The feed also carries design documents and other non-packages
+        if (!isValidPackageName(change.id)) {
           skipped++;
           continue;
         }
 
-        if (change.deleted) {
-          fs.unlinkSync(cachePath);
-          console.log(`  🗑 deleted ${change.id}`);
-          deleted++;
+        // The public registry's copy of a name published here is irrelevant
+        const cachePath = packageFile(CACHE_DIR, change.id);
+        if (!fs.existsSync(cachePath) || isLocalPackage(change.id)) {
+          skipped++;
           continue;
         }
 
-        toFetch.push({ id: change.id, cachePath });
+        changes.push({ pkg: change.id, deleted: !!change.deleted });
       }
 
-      // Fetch and strip all changed cached packages concurrently
-      const results = await Promise.all(
-        toFetch.map(async ({ id, cachePath }) => {
-          const metadata = await fetchMetadata(id);
-          if (metadata && metadata.versions && metadata["dist-tags"]) {
-            const oldSize = fs.statSync(cachePath).size;
-            const stripped = JSON.stringify(stripMetadata(metadata));
-            fs.mkdirSync(path.dirname(cachePath), { recursive: true });
-            fs.writeFileSync(cachePath, stripped);
-            recordSync(id, oldSize, Buffer.byteLength(stripped));
-            console.log(`  ↻ updated ${id}`);
-            return true;
-          }
-          return false;
-        }),
-      );
-      const updated = results.filter(Boolean).length;
-
-      writeSeq(data.last_seq);
-
-      if (updated > 0 || deleted > 0) {
+      // Queued before the position moves, in one transaction
+      enqueueChanges(changes, String(data.last_seq));
+      lastPoll.set(Math.floor(Date.now() / 1000));
+
+      if (changes.length > 0) {
+        const { pending, retrying } = queueLength();
         console.log(
-          `sync: ${data.results.length} changes — ${updated} updated, ${deleted} deleted, ${skipped} skipped (seq: ${data.last_seq})`,
+          `sync: ${data.results.length} changes — ${changes.length} queued, ${skipped} skipped (seq: ${data.last_seq}, queue: ${pending}, retrying: ${retrying})`,
         );
       }
 
       // If we got a full page, there are more changes — continue immediately
       if (data.results.length >= CHANGES_LIMIT) {
+        const current = await upstreamHead();
+        if (current !== null) {
+          syncLag.set(
+            Math.max(0, seqNumber(current) - seqNumber(data.last_seq)),
+          );
+        }
         continue;
       }
+      syncLag.set(0);
 
       await sleep(POLL_INTERVAL);
     } catch (err) {
       console.error(`sync error: ${(err as Error).message}`);
+      recordSyncError((err as Error).message);
       await sleep(backoff);
       backoff = Math.min(backoff * 2, 300_000);
     }
@@ -160,10 +422,129 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-console.log("upm-registry sync starting...");
-console.log(`Cache: ${CACHE_DIR}`);
-console.log(`Seq file: ${SEQ_FILE}`);
-console.log(`Poll interval: ${POLL_INTERVAL / 1000}s`);
-console.log();
+export interface SyncStatus {
+  // Whether this process runs the loop; the rest holds either way
+  running: boolean;
+  seq: string | null;
+  upstreamSeq: string | null;
+  // Changes upstream has that haven't been looked at yet
+  lag: number | null;
+  reconciling: { targetSeq: string; remaining: number } | null;
+  queue: { pending: number; retrying: number };
+  lastPoll: string | null;
+  lastError: { message: string; at: string } | null;
+  // Packages rewritten
+  throughput: { lastMinute: number; lastHour: number };
+}
 
-pollChanges();
+export async function syncStatus(): Promise<SyncStatus> {
+  const state = readSyncState();
+  const upstreamSeq = await upstreamHead();
+  const lag =
+    state.seq !== null && upstreamSeq !== null
+      ? Math.max(0, seqNumber(upstreamSeq) - seqNumber(state.seq))
+      : null;
+  return {
+    running,
+    seq: state.seq,
+    upstreamSeq,
+    lag: Number.isNaN(lag) ? null : lag,
+    reconciling:
+      state.reconcileSeq === null
+        ? null
+        : {
+            targetSeq: state.reconcileSeq,
+            remaining: pendingRevalidations(),
+          },
+    queue: queueLength(),
+    lastPoll:
+      state.polledAt === null ? null : new Date(state.polledAt).toISOString(),
+    lastError:
+      state.lastError === null
+        ? null
+        : {
+            message: state.lastError.message,
+            at: new Date(state.lastError.at).toISOString(),
+          },
+    throughput: { lastMinute: recentSyncs(1), lastHour: recentSyncs(60) },
+  };
+}
+
+// Poll the feed and run the refresh workers in this process
+export function startSync(): void {
+  if (running) return;
+  running = true;
+  pollChanges();
+  runWorkers();
+}
+
+export function isSyncRoute(url: string): boolean {
+  return url.split("?")[0].startsWith("/-/sync/");
+}
+
+// GET /-/sync/status and POST /-/sync/refresh/:pkg
+export async function handleSyncRequest(
+  id: string,
+  clientReq: http.IncomingMessage,
+  clientRes: http.ServerResponse,
+): Promise<void> {
+  const p = clientReq.url!.split("?")[0];
+  const method = clientReq.method;
+  const identity = authenticate(clientReq);
+
+  try {
+    if (method === "GET" && p === "/-/sync/status") {
+      if (!isAllowed(identity, "read", null)) {
+        deny(identity, "read", null, clientRes);
+        return;
+      }
+      sendJson(clientRes, 200, await syncStatus());
+      return;
+    }
+
+    if (method === "POST" && p.startsWith("/-/sync/refresh/")) {
+      const parsed = parsePackagePath(p.slice("/-/sync/refresh".length));
+      if (!parsed || parsed.rest.length > 0) {
+        throw new RegistryError(400, "invalid package name");
+      }
+      const pkg = parsed.name;
+      // It costs an upstream fetch, so reading the package isn't enough
+      if (!isAllowed(identity, "publish", pkg)) {
+        deny(identity, "publish", pkg, clientRes);
+        return;
+      }
+      if (OFFLINE) throw new RegistryError(503, "offline mode");
+      if (isLocalPackage(pkg)) {
+        throw new RegistryError(409, `${pkg} is published here`);
+      }
+      if (!fs.existsSync(packageFile(CACHE_DIR, pkg))) {
+        throw new RegistryError(404, `${pkg} is not cached`);
+      }
+      let result: "updated" | "removed";
+      try {
+        result = await refetch(pkg);
+      } catch (err) {
+        throw new RegistryError(502, (err as Error).message);
+      }
+      sendJson(clientRes, 200, { ok: true, package: pkg, result });
+      return;
+    }
+
+    throw new RegistryError(404, "not found");
+  } catch (err) {
+    const status = err instanceof RegistryError ? err.status : 500;
+    const message = (err as Error).message;
+    if (status >= 500) console.error(`  ✗ ${id} ${method} ${p}: ${message}`);
+    if (!clientRes.headersSent) sendJson(clientRes, status, { error: message });
+  }
+}
+
+// bun src/sync.ts — the loop on its own, for servers that don't run it
+if (import.meta.main) {
+  console.log("upm-registry sync starting...");
+  console.log(`Cache: ${CACHE_DIR}`);
+  console.log(`Poll interval: ${POLL_INTERVAL / 1000}s`);
+  console.log(`Concurrency: ${SYNC_CONCURRENCY}`);
+  console.log();
+  startSync();
+}
@@ -0,0 +1,192 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import fsp from "node:fs/promises";
+import type http from "node:http";
+import path from "node:path";
+import { parsePackagePath } from "./names.ts";
+import { openUpstream } from "./upstream.ts";
+import { recordTarballMiss } from "./stats.ts";
+import { TARBALL_DIR, cacheRequests } from "./cache.ts";
+
+const TARBALL_TMP = path.join(TARBALL_DIR, "tmp");
+
+fs.mkdirSync(TARBALL_TMP, { recursive: true });
+
+// Strongest first — when an integrity string lists several hashes we key by the best one
+const ALGORITHMS = ["sha512", "sha384", "sha256", "sha1"] as const;
+type Algorithm = (typeof ALGORITHMS)[number];
+
+export interface TarballDigest {
+  algorithm: Algorithm;
+  hex: string;
+}
+
+export interface TarballRef {
+  pkg: string;
+  version: string;
+}
+
+// "/express/-/express-4.19.2.tgz" → { pkg: "express", version: "4.19.2" }
+// "/@babel%2fcore/-/core-7.24.0.tgz" → { pkg: "@babel/core", version: "7.24.0" }
+// "/@ourco/ui/-/@ourco/ui-1.0.0.tgz" (Verdaccio, Nexus) → { pkg: "@ourco/ui", … }
+export function parseTarballUrl(url: string): TarballRef | null {
+  const parsed = parsePackagePath(url);
+  if (!parsed || parsed.rest[0] !== "-") return null;
+  const pkg = parsed.name;
+  const file = parsed.rest.slice(1).join("/");
+  const prefix = file.startsWith(pkg + "-") ? pkg : pkg.split("/").pop()!;
+  if (!file.startsWith(prefix + "-") || !file.endsWith(".tgz")) return null;
+  const version = file.slice(prefix.length + 1, -".tgz".length);
+  return version && !version.includes("/") ? { pkg, version } : null;
+}
+
+// Pick the digest to key a tarball by, from dist.integrity (SRI) or the legacy hex shasum
+export function digestFromDist(dist: {
+  integrity?: string;
+  shasum?: string;
+}): TarballDigest | null {
+  if (dist.integrity) {
+    const entries = dist.integrity.trim().split(/\s+/);
+    for (const algorithm of ALGORITHMS) {
+      const entry = entries.find((e) => e.startsWith(algorithm + "-"));
+      if (!entry) continue;
+      const b64 = entry.slice(algorithm.length + 1).split("?")[0];
+      const hex = Buffer.from(b64, "base64").toString("hex");
+      if (hex) return { algorithm, hex };
+    }
+  }
+  if (dist.shasum && /^[0-9a-f]{40}$/i.test(dist.shasum)) {
+    return { algorithm: "sha1", hex: dist.shasum.toLowerCase() };
+  }
+  return null;
+}
+
+// cache/tarballs/sha512/ab/abcdef… — two-char fan-out keeps directories small
+export function tarballPath(digest: TarballDigest): string {
+  return path.join(
+    TARBALL_DIR,
+    digest.algorithm,
+    digest.hex.slice(0, 2),
+    digest.hex,
+  );
+}
+
+export interface TarballWriter {
+  write(chunk: Buffer): void;
+  // Verifies the digest and moves the file into the store; false on mismatch
+  commit(): Promise<boolean>;
+  abort(): void;
+}
+
+// Streams a tarball into a temp file while hashing it. Nothing lands in the
+// store unless the bytes match the expected digest.
+export function createTarballWriter(digest: TarballDigest): TarballWriter {
+  const tmpPath = path.join(
+    TARBALL_TMP,
+    `${digest.hex}.${process.pid}.${crypto.randomUUID()}`,
+  );
+  const hash = crypto.createHash(digest.algorithm);
+  const out = fs.createWriteStream(tmpPath);
+  let failed = false;
+
+  out.on("error", (err) => {
+    failed = true;
+    console.error(`  ✗ tarball write error: ${err.message}`);
+  });
+
+  const cleanup = () => fsp.unlink(tmpPath).catch(() => {});
+
+  return {
+    write(chunk) {
+      hash.update(chunk);
+      out.write(chunk);
+    },
+    async commit() {
+      await new Promise<void>((resolve) => out.end(resolve));
+      if (failed) {
+        await cleanup();
+        return false;
+      }
+      if (hash.digest("hex") !== digest.hex) {
+        await cleanup();
+        return false;
+      }
+      const dest = tarballPath(digest);
+      await fsp.mkdir(path.dirname(dest), { recursive: true });
+      await fsp.rename(tmpPath, dest);
+      return true;
+    },
+    abort() {
+      out.destroy();
+      cleanup();
+    },
+  };
+}
+
+// Whoever waits on a tarball being fetched: told about the response as it
+// arrives, before the bytes are verified
+export interface TarballRelay {
+  head(res: http.IncomingMessage): void;
+  chunk(chunk: Buffer): void;
+  end(): void;
+}
+
+// Fetch a tarball from upstream and store it if its bytes match `digest`;
+// proxy misses and cache warming both come through here. Rejects when
+// upstream can't be reached or the body breaks off, otherwise resolves to
+// whether the tarball is now in the store.
+export async function fetchTarball(
+  id: string,
+  ref: TarballRef,
+  urlPath: string,
+  digest: TarballDigest,
+  headers: http.OutgoingHttpHeaders = {},
+  relay?: TarballRelay,
+): Promise<boolean> {
+  // The whole file, unencoded, so the bytes hashed are the bytes of the .tgz
+  const fwdHeaders = { ...headers, "accept-encoding": "identity" };
+  delete fwdHeaders["range"];
+  delete fwdHeaders["if-none-match"];
+  delete fwdHeaders["if-modified-since"];
+
+  const startTime = Date.now();
+  const { res } = await openUpstream({
+    pkg: ref.pkg,
+    method: "GET",
+    path: urlPath,
+    headers: fwdHeaders,
+  });
+  relay?.head(res);
+
+  const cacheable = res.statusCode === 200 && !res.headers["content-encoding"];
+  const writer = cacheable ? createTarballWriter(digest) : null;
+  let size = 0;
+  try {
+    for await (const chunk of res) {
+      size += chunk.length;
+      writer?.write(chunk);
+      relay?.chunk(chunk);
+    }
+  } catch (err) {
+    writer?.abort();
+    throw err;
+  }
+  relay?.end();
+
+  const elapsed = Date.now() - startTime;
+  console.log(
+    `  ← ${id} TARBALL ${res.statusCode} ${size} bytes (${elapsed}ms)`,
+  );
+  recordTarballMiss(ref.pkg, size, elapsed);
+  cacheRequests.inc({ type: "tarball", result: "miss" });
+
+  if (!writer) return false;
+  if (!(await writer.commit())) {
+    console.error(
+      `  ✗ integrity mismatch for ${ref.pkg}@${ref.version}, not cached`,
+    );
+    return false;
+  }
+  console.log(`  📦 stored ${ref.pkg}@${ref.version}`);
+  return true;
+}
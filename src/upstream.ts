@@ -0,0 +1,280 @@
+import http from "node:http";
+import https from "node:https";
+import { decompress } from "./encoding.ts";
+import { UPSTREAMS, matchesPackage, type Upstream } from "./config.ts";
+import { isLocalPackage } from "./storage.ts";
+import { createHistogram } from "./metrics.ts";
+
+// Never contact upstream: serve what the cache has, fail fast otherwise
+export const OFFLINE = ["1", "true"].includes(
+  (process.env.OFFLINE ?? "").toLowerCase(),
+);
+export const UPSTREAM_TIMEOUT_MS =
+  Number(process.env.UPSTREAM_TIMEOUT_MS) || 15_000;
+
+export interface UpstreamHealth {
+  name: string;
+  url: string;
+  healthy: boolean;
+  consecutiveFailures: number;
+  lastSuccess: string | null;
+  lastFailure: string | null;
+  lastError: string | null;
+}
+
+// Until response headers arrive, per attempt: a failover shows up as one
+// observation per upstream tried
+const upstreamLatency = createHistogram(
+  "upm_upstream_request_duration_seconds",
+  "Time to upstream response headers, by upstream and status",
+  [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 15, 30],
+);
+
+const health = new Map<string, UpstreamHealth>(
+  UPSTREAMS.map((u) => [
+    u.name,
+    {
+      name: u.name,
+      url: u.url,
+      healthy: true,
+      consecutiveFailures: 0,
+      lastSuccess: null,
+      lastFailure: null,
+      lastError: null,
+    },
+  ]),
+);
+
+// Network errors, timeouts and 5xx count as failures
+function reportUpstream(name: string, error?: string): void {
+  const h = health.get(name);
+  if (!h) return;
+  const now = new Date().toISOString();
+  if (error === undefined) {
+    h.healthy = true;
+    h.consecutiveFailures = 0;
+    h.lastSuccess = now;
+    return;
+  }
+  h.healthy = false;
+  h.consecutiveFailures++;
+  h.lastFailure = now;
+  h.lastError = error;
+}
+
+export function upstreamHealth(): UpstreamHealth[] {
+  return [...health.values()].map((h) => ({ ...h }));
+}
+
+// Upstreams to try for a package, in failover order. A package claimed by
+// some upstream's scopes never goes anywhere else.
+export function routeFor(pkg: string | null): Upstream[] {
+  if (pkg) {
+    const claimed = UPSTREAMS.filter((u) =>
+      u.scopes.some((pattern) => matchesPackage(pattern, pkg)),
+    );
+    if (claimed.length > 0) return claimed;
+  }
+  return UPSTREAMS.filter((u) => u.scopes.length === 0);
+}
+
+export interface UpstreamRequest {
+  // Package the request is about, for routing; null for registry-wide endpoints
+  pkg: string | null;
+  method: string;
+  // Path relative to the upstream URL, starting with "/"
+  path: string;
+  headers: http.OutgoingHttpHeaders;
+  // Request body to stream upstream; such requests can't be retried elsewhere
+  body?: http.IncomingMessage;
+}
+
+export interface UpstreamResponse {
+  res: http.IncomingMessage;
+  upstream: Upstream;
+}
+
+function retryable(status: number): boolean {
+  return status >= 500 || status === 429;
+}
+
+// Send a request to the first upstream on the package's route that answers.
+// Connection errors, timeouts, 5xx and 429 fall through to the next one.
+export async function openUpstream(
+  req: UpstreamRequest,
+): Promise<UpstreamResponse> {
+  if (OFFLINE) throw new Error("offline mode");
+  if (req.pkg && isLocalPackage(req.pkg)) {
+    throw new Error(`${req.pkg} is published locally`);
+  }
+
+  const route = routeFor(req.pkg);
+  if (route.length === 0) {
+    throw new Error(`no upstream configured for ${req.pkg ?? req.path}`);
+  }
+  const attempts = req.body ? route.slice(0, 1) : route;
+
+  let lastError: Error | undefined;
+  for (const [i, upstream] of attempts.entries()) {
+    const isLast = i === attempts.length - 1;
+    const startTime = Date.now();
+    try {
+      const res = await attempt(upstream, req);
+      const status = res.statusCode!;
+      upstreamLatency.observe((Date.now() - startTime) / 1000, {
+        upstream: upstream.name,
+        status: String(status),
+      });
+      reportUpstream(
+        upstream.name,
+        status >= 500 ? `HTTP ${status}` : undefined,
+      );
+      if (retryable(status) && !isLast) {
+        console.error(`  ✗ ${upstream.name} ${status}, trying next upstream`);
+        res.resume();
+        continue;
+      }
+      return { res, upstream };
+    } catch (err) {
+      lastError = err as Error;
+      reportUpstream(upstream.name, lastError.message);
+      upstreamLatency.observe((Date.now() - startTime) / 1000, {
+        upstream: upstream.name,
+        status: "error",
+      });
+      if (!isLast) {
+        console.error(
+          `  ✗ ${upstream.name} ${lastError.message}, trying next upstream`,
+        );
+      }
+    }
+  }
+  throw lastError!;
+}
+
+function attempt(
+  upstream: Upstream,
+  req: UpstreamRequest,
+): Promise<http.IncomingMessage> {
+  const base = new URL(upstream.url);
+  const headers: http.OutgoingHttpHeaders = { ...req.headers, host: base.host };
+  // Clients authenticate to this proxy, not upstream; their tokens stay here
+  delete headers.authorization;
+  if (upstream.token) headers.authorization = `Bearer ${upstream.token}`;
+  const transport = base.protocol === "http:" ? http : https;
+
+  return new Promise((resolve, reject) => {
+    const proxyReq = transport.request(
+      {
+        protocol: base.protocol,
+        hostname: base.hostname,
+        port: base.port || undefined,
+        path: base.pathname.replace(/\/$/, "") + req.path,
+        method: req.method,
+        headers,
+      },
+      resolve,
+    );
+    proxyReq.setTimeout(UPSTREAM_TIMEOUT_MS, () => {
+      proxyReq.destroy(new Error(`timed out after ${UPSTREAM_TIMEOUT_MS}ms`));
+    });
+    proxyReq.on("error", reject);
+    if (req.body) req.body.pipe(proxyReq);
+    else proxyReq.end();
+  });
+}
+
+export interface PackumentResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  // Decoded body; content-encoding has already been undone
+  body: Buffer;
+  // Bytes received from upstream before decoding
+  wireBytes: number;
+  elapsedMs: number;
+  // When it arrived: the cache entry written from it is dated to match
+  fetchedAt: Date;
+  upstream: string;
+}
+
+export interface PackumentFetch {
+  response: Promise<PackumentResponse>;
+  // True for the caller whose request started the fetch; only it should
+  // write the result to the cache
+  leader: boolean;
+}
+
+// Packument fetches in progress, keyed by package name. Proxy misses,
+// prefetches and sync all go through here, so however many clients ask for
+// an uncached package at once, upstream sees a single request.
+const inflight = new Map<string, Promise<PackumentResponse>>();
+
+export function isFetching(pkg: string): boolean {
+  return inflight.has(pkg);
+}
+
+export function fetchPackument(
+  pkg: string,
+  urlPath: string,
+  headers: http.OutgoingHttpHeaders = {},
+): PackumentFetch {
+  // A conditional fetch may come back 304 without a body, which is of no
+  // use to anyone else: it neither joins nor is joined
+  if (headers["if-none-match"] || headers["if-modified-since"]) {
+    return {
+      response: requestPackument(pkg, urlPath, headers),
+      leader: true,
+    };
+  }
+  const existing = inflight.get(pkg);
+  if (existing) return { response: existing, leader: false };
+
+  const response = requestPackument(pkg, urlPath, headers).finally(() => {
+    inflight.delete(pkg);
+  });
+  inflight.set(pkg, response);
+  return { response, leader: true };
+}
+
+async function requestPackument(
+  pkg: string,
+  urlPath: string,
+  headers: http.OutgoingHttpHeaders,
+): Promise<PackumentResponse> {
+  const startTime = Date.now();
+  const { res, upstream } = await openUpstream({
+    pkg,
+    method: "GET",
+    path: urlPath,
+    headers: {
+      ...headers,
+      accept: "application/json",
+      "accept-encoding": "br, gzip",
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  await new Promise<void>((resolve, reject) => {
+    res.on("data", (chunk: Buffer) => chunks.push(chunk));
+    res.on("error", (err) => {
+      reportUpstream(upstream.name, err.message);
+      reject(err);
+    });
+    res.on("end", resolve);
+  });
+
+  const compressed = Buffer.concat(chunks);
+  const relayHeaders = { ...res.headers };
+  delete relayHeaders["content-encoding"];
+  delete relayHeaders["content-length"];
+  delete relayHeaders["transfer-encoding"];
+  return {
+    status: res.statusCode!,
+    headers: relayHeaders,
+    body: await decompress(compressed, res.headers["content-encoding"]),
+    wireBytes: compressed.length,
+    elapsedMs: Date.now() - startTime,
+    fetchedAt: new Date(),
+    upstream: upstream.name,
+  };
+}
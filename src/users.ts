@@ -0,0 +1,148 @@
+import { Database } from "bun:sqlite";
+import crypto from "node:crypto";
+import path from "node:path";
+import { DATA_DIR } from "./stats.ts";
+
+const db = new Database(path.join(DATA_DIR, "stats.db"), { create: true });
+db.exec("PRAGMA journal_mode = WAL");
+db.exec("PRAGMA busy_timeout = 5000");
+db.exec(`
+  CREATE TABLE IF NOT EXISTS users (
+    name          TEXT PRIMARY KEY,
+    password_hash TEXT NOT NULL,
+    email         TEXT,
+    created       TEXT NOT NULL DEFAULT (datetime('now'))
+  )
+`);
+// Only a hash of each token is kept; the key identifies it in listings
+db.exec(`
+  CREATE TABLE IF NOT EXISTS tokens (
+    key        TEXT    PRIMARY KEY,
+    token_hash TEXT    NOT NULL UNIQUE,
+    username   TEXT    NOT NULL,
+    readonly   INTEGER NOT NULL DEFAULT 0,
+    created    TEXT    NOT NULL DEFAULT (datetime('now'))
+  )
+`);
+
+export interface TokenInfo {
+  key: string;
+  username: string;
+  readonly: boolean;
+  created: string;
+}
+
+interface TokenRow {
+  key: string;
+  username: string;
+  readonly: number;
+  created: string;
+}
+
+const selectUser = db.query(
+  "SELECT password_hash FROM users WHERE name = $name",
+);
+const insertUser = db.query(
+  "INSERT INTO users (name, password_hash, email) VALUES ($name, $hash, $email)",
+);
+const insertToken = db.query(
+  "INSERT INTO tokens (key, token_hash, username, readonly) VALUES ($key, $hash, $username, $readonly)",
+);
+const selectToken = db.query(
+  "SELECT key, username, readonly, created FROM tokens WHERE token_hash = $hash",
+);
+const selectTokens = db.query(
+  "SELECT key, username, readonly, created FROM tokens WHERE username = $username ORDER BY created",
+);
+const deleteToken = db.query(
+  "DELETE FROM tokens WHERE key = $key AND username = $username",
+);
+const deleteTokenByHash = db.query(
+  "DELETE FROM tokens WHERE token_hash = $hash",
+);
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function toInfo(row: TokenRow): TokenInfo {
+  return { ...row, readonly: row.readonly === 1 };
+}
+
+export function userExists(name: string): boolean {
+  return selectUser.get({ $name: name }) !== null;
+}
+
+export async function createUser(
+  name: string,
+  password: string,
+  email?: string,
+): Promise<void> {
+  insertUser.run({
+    $name: name,
+    $hash: await Bun.password.hash(password),
+    $email: email ?? null,
+  });
+}
+
+export async function verifyPassword(
+  name: string,
+  password: string,
+): Promise<boolean> {
+  const row = selectUser.get({ $name: name }) as {
+    password_hash: string;
+  } | null;
+  if (!row) return false;
+  return Bun.password.verify(password, row.password_hash);
+}
+
+// The token itself is only ever returned here
+export function createToken(
+  username: string,
+  readonly: boolean = false,
+): { token: string; info: TokenInfo } {
+  const token = `upm_${crypto.randomBytes(32).toString("base64url")}`;
+  const key = crypto.randomUUID();
+  insertToken.run({
+    $key: key,
+    $hash: hashToken(token),
+    $username: username,
+    $readonly: readonly ? 1 : 0,
+  });
+  return {
+    token,
+    info: toInfo(selectToken.get({ $hash: hashToken(token) }) as TokenRow),
+  };
+}
+
+export function lookupToken(token: string): TokenInfo | null {
+  const row = selectToken.get({ $hash: hashToken(token) }) as TokenRow | null;
+  return row ? toInfo(row) : null;
+}
+
+export function listTokens(username: string): TokenInfo[] {
+  return (selectTokens.all({ $username: username }) as TokenRow[]).map(toInfo);
+}
+
+export function revokeToken(username: string, key: string): boolean {
+  return deleteToken.run({ $key: key, $username: username }).changes > 0;
+}
+
+export function revokeTokenValue(token: string): boolean {
+  return deleteTokenByHash.run({ $hash: hashToken(token) }).changes > 0;
+}
+
+// bun src/users.ts add <name> <password> — create accounts when signup is closed
+if (import.meta.main) {
+  const [command, name, password] = process.argv.slice(2);
+  if (command !== "add" || !name || !password) {
+    console.error("usage: bun src/users.ts add <name> <password>");
+    process.exit(1);
+  }
+  if (userExists(name)) {
+    console.error(`user ${name} already exists`);
+    process.exit(1);
+  }
+  await createUser(name, password);
+  console.log(`created user ${name}`);
+}
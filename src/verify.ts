@@ -0,0 +1,149 @@
+import fs from "node:fs";
+import fsp from "node:fs/promises";
+import path from "node:path";
+import type { NpmPackageMetadata } from "./strip.ts";
+import { decompress } from "./encoding.ts";
+import {
+  writePackument,
+  removePackument,
+  packumentProblem,
+  CACHE_DIR,
+  CACHE_CORGI,
+  CACHE_RAW,
+  TARBALL_DIR,
+} from "./cache.ts";
+import { fetchPackument, OFFLINE } from "./upstream.ts";
+import {
+  isLocalPackage,
+  readLocalPackument,
+  cacheLocalPackument,
+} from "./storage.ts";
+import { listPackageFiles, packageUrlPath } from "./names.ts";
+
+// bun src/verify.ts [--repair] — scan the cache for documents that can't be
+// served and for files left behind by interrupted writes. With --repair,
+// broken packages are refetched and leftovers removed.
+
+const TARBALL_TMP = path.join(TARBALL_DIR, "tmp");
+// Anything staged or half-written this long ago belongs to a write that
+// will never finish
+const LEFTOVER_AGE_MS = 10 * 60_000;
+
+const SIBLINGS = [
+  [".br", "br"],
+  [".gz", "gzip"],
+] as const;
+
+// Packages whose cached documents are unusable, with the first reason found
+async function findBrokenPackages(): Promise<Map<string, string>> {
+  const broken = new Map<string, string>();
+  const full = listPackageFiles(CACHE_DIR);
+  const corgi = listPackageFiles(CACHE_CORGI);
+
+  for (const [files, other, label] of [
+    [full, corgi, "abbreviated"],
+    [corgi, full, "full"],
+  ] as const) {
+    for (const [pkg, file] of files) {
+      if (broken.has(pkg)) continue;
+      const text = await fsp.readFile(file, "utf8");
+      const problem = packumentProblem(text, pkg);
+      if (problem) {
+        broken.set(pkg, `${path.relative(CACHE_DIR, file)}: ${problem}`);
+        continue;
+      }
+      if (!other.has(pkg)) {
+        broken.set(pkg, `${label} document missing`);
+        continue;
+      }
+      for (const [ext, encoding] of SIBLINGS) {
+        const sibling = await fsp.readFile(file + ext).catch(() => null);
+        if (!sibling) continue;
+        try {
+          JSON.parse((await decompress(sibling, encoding)).toString("utf8"));
+        } catch {
+          broken.set(pkg, `${path.relative(CACHE_DIR, file + ext)} is corrupt`);
+          break;
+        }
+      }
+    }
+  }
+  return broken;
+}
+
+// Staged raw documents, temp files of atomic writes and partial tarball
+// downloads that nothing will pick up again
+function findLeftovers(): string[] {
+  const cutoff = Date.now() - LEFTOVER_AGE_MS;
+  const leftovers: string[] = [];
+  const consider = (file: string) => {
+    const stat = fs.statSync(file, { throwIfNoEntry: false });
+    if (stat?.isFile() && stat.mtimeMs < cutoff) leftovers.push(file);
+  };
+
+  for (const dir of [CACHE_RAW, TARBALL_TMP]) {
+    if (!fs.existsSync(dir)) continue;
+    for (const entry of fs.readdirSync(dir, { recursive: true })) {
+      consider(path.join(dir, String(entry)));
+    }
+  }
+  // Atomic writes leave temp files next to documents; the tarball store
+  // and raw/ (scanned above) are not walked
+  for (const top of fs.readdirSync(CACHE_DIR, { withFileTypes: true })) {
+    const base = path.join(CACHE_DIR, top.name);
+    if (base === TARBALL_DIR || base === CACHE_RAW) continue;
+    const files = top.isDirectory()
+      ? fs
+          .readdirSync(base, { recursive: true })
+          .map((entry) => path.join(base, String(entry)))
+      : [base];
+    for (const file of files) if (file.endsWith(".tmp")) consider(file);
+  }
+  return leftovers;
+}
+
+// Rebuild one package's cache entry from storage or upstream
+async function refetch(pkg: string): Promise<boolean> {
+  await removePackument(pkg);
+  if (isLocalPackage(pkg)) {
+    const local = await readLocalPackument(pkg);
+    if (!local) return false;
+    await cacheLocalPackument(local);
+    return true;
+  }
+  // Dropping the entry is repair enough: the next request refetches it
+  if (OFFLINE) return false;
+  const res = await fetchPackument(pkg, packageUrlPath(pkg)).response;
+  if (res.status !== 200) return false;
+  const data = JSON.parse(res.body.toString("utf8")) as NpmPackageMetadata;
+  if (!data.versions || !data["dist-tags"]) return false;
+  await writePackument(data);
+  return true;
+}
+
+const repair = process.argv.includes("--repair");
+const broken = await findBrokenPackages();
+const leftovers = findLeftovers();
+
+for (const [pkg, reason] of broken) console.log(`  ✗ ${pkg}: ${reason}`);
+for (const file of leftovers) {
+  console.log(`  ✗ leftover ${path.relative(CACHE_DIR, file)}`);
+}
+
+if (repair) {
+  for (const pkg of broken.keys()) {
+    try {
+      const ok = await refetch(pkg);
+      console.log(ok ? `  ↻ refetched ${pkg}` : `  🗑 removed ${pkg}`);
+    } catch (err) {
+      console.error(`  ✗ refetch ${pkg}: ${(err as Error).message}`);
+    }
+  }
+  for (const file of leftovers) await fsp.rm(file, { force: true });
+}
+
+const found = broken.size + leftovers.length;
+console.log(
+  `verify: ${broken.size} broken packages, ${leftovers.length} leftover files${found > 0 && repair ? " (repaired)" : ""}`,
+);
+process.exit(found > 0 && !repair ? 1 : 0);
@@ -0,0 +1,107 @@
+import type { NpmVersionEntry } from "./strip.ts";
+
+// What a version route needs from a packument, stripped or not
+export interface VersionedDocument {
+  "dist-tags"?: Record<string, string>;
+  versions?: Record<string, NpmVersionEntry>;
+}
+
+// One comparator of a semver range: "1.2.3", ">=1.2", "^2.0.0-beta.0", "1.x"
+const COMPARATOR_RE =
+  /^(?:[<>]=?|=|~|\^)?v?(?:[xX*]|\d+)(?:\.(?:[xX*]|\d+)){0,2}(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/;
+const OPERATOR_RE = /^(?:[<>]=?|=|~|\^)$/;
+
+// Bun.semver treats anything it can't parse as "*", so check the shape
+// first: "||"-separated sets of comparators, hyphen ranges included
+function isRange(spec: string): boolean {
+  return spec.split("||").every((set) => {
+    const tokens = set.trim().split(/\s+/).filter(Boolean);
+    return (
+      tokens.length > 0 &&
+      tokens.every(
+        (t) => t === "-" || OPERATOR_RE.test(t) || COMPARATOR_RE.test(t),
+      )
+    );
+  });
+}
+
+// The version a route like /express/4.19.2, /express/latest or /express/^4
+// names: an exact version, then a dist-tag, then the highest version in a
+// semver range. Null when nothing matches.
+export function resolveVersion(
+  data: VersionedDocument,
+  spec: string,
+): string | null {
+  const versions = data.versions ?? {};
+  const tags = data["dist-tags"] ?? {};
+  if (Object.hasOwn(versions, spec)) return spec;
+  if (Object.hasOwn(tags, spec)) {
+    return Object.hasOwn(versions, tags[spec]) ? tags[spec] : null;
+  }
+
+  if (!isRange(spec)) return null;
+
+  // Like npm, prefer the latest tag whenever it satisfies the range
+  const latest = tags.latest;
+  if (
+    latest &&
+    Object.hasOwn(versions, latest) &&
+    Bun.semver.satisfies(latest, spec)
+  ) {
+    return latest;
+  }
+  let best: string | null = null;
+  for (const version of Object.keys(versions)) {
+    if (!Bun.semver.satisfies(version, spec)) continue;
+    if (best === null || Bun.semver.order(version, best) > 0) best = version;
+  }
+  return best;
+}
+
+// A dependency to look up on the registry: the package and the range or
+// tag its dependent asked for
+export interface Dependency {
+  name: string;
+  spec: string;
+}
+
+// "^4.18.0" stays as it is, "npm:other@^1" names another package; git, URL
+// and file dependencies never come from a registry and give null
+export function registryDependency(
+  name: string,
+  spec: string,
+): Dependency | null {
+  spec = spec.trim();
+  if (spec.startsWith("npm:")) {
+    const target = spec.slice("npm:".length);
+    // The first character of "@scope/name@^1" is not the separator
+    const at = target.lastIndexOf("@");
+    if (at <= 0) return { name: target, spec: "*" };
+    return { name: target.slice(0, at), spec: target.slice(at + 1) || "*" };
+  }
+  if (/[:/]/.test(spec)) return null;
+  return { name, spec: spec || "*" };
+}
+
+// What installing this version pulls in from the registry. Peers are
+// installed too unless peerDependenciesMeta marks them optional.
+export function installedDependencies(entry: NpmVersionEntry): Dependency[] {
+  const deps = new Map<string, string>();
+  const optionalPeers = entry.peerDependenciesMeta ?? {};
+  for (const [name, spec] of Object.entries(entry.peerDependencies ?? {})) {
+    const meta = optionalPeers[name] as { optional?: boolean } | undefined;
+    if (!meta?.optional) deps.set(name, spec);
+  }
+  // npm lets optionalDependencies override dependencies of the same name
+  for (const field of ["dependencies", "optionalDependencies"] as const) {
+    for (const [name, spec] of Object.entries(entry[field] ?? {})) {
+      deps.set(name, spec);
+    }
+  }
+  const result: Dependency[] = [];
+  for (const [name, spec] of deps) {
+    const dep = registryDependency(name, String(spec));
+    if (dep) result.push(dep);
+  }
+  return result;
+}
@@ -1,6 +1,6 @@
 import fs from "node:fs";
 import path from "node:path";
-import type { Stats } from "../stats.ts";
+import type { Bucket, Stats, StatsBucket } from "../stats.ts";
 
 const template = fs.readFileSync(
   path.join(import.meta.dirname, "stats.html"),
@@ -35,7 +35,71 @@ function fmtNum(n: number): string {
   return n.toLocaleString("en-US");
 }
 
-export function renderStatsPage(s: Stats, host?: string): string {
+function fmtMs(n: number): string {
+  return n < 1000 ? `${Math.round(n)} ms` : `${(n / 1000).toFixed(1)} s`;
+}
+
+const CHART_WIDTH = 680;
+const CHART_HEIGHT = 48;
+
+// Inline SVG, one bar per bucket scaled to `max` (the largest value unless
+// given). Later layers are drawn over earlier ones.
+function chart(
+  title: string,
+  layers: { values: number[]; color: string }[],
+  fmt: (n: number) => string,
+  max = Math.max(0, ...layers.flatMap((l) => l.values)),
+): string {
+  const width = CHART_WIDTH / layers[0].values.length;
+  const bars = layers.flatMap(({ values, color }) =>
+    values.map((v, i) => {
+      if (!v || !max) return "";
+      const height = (Math.min(v, max) / max) * CHART_HEIGHT;
+      return `<rect x="${(i * width).toFixed(1)}" y="${(CHART_HEIGHT - height).toFixed(1)}" width="${Math.max(width - 1, 1).toFixed(1)}" height="${height.toFixed(1)}" fill="${color}"/>`;
+    }),
+  );
+  return `<div class="chart">
+      <div class="stat-label">${title} <span class="chart-max">max ${fmt(max)}</span></div>
+      <svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" preserveAspectRatio="none">${bars.join("")}</svg>
+    </div>`;
+}
+
+function historyCharts(buckets: StatsBucket[]): string {
+  const p50 = buckets.map((b) => b.latency?.p50 ?? 0);
+  const p95 = buckets.map((b) => b.latency?.p95 ?? 0);
+  return [
+    chart(
+      "Hit Rate",
+      [{ values: buckets.map((b) => b.hitRate), color: "#3fb950" }],
+      fmtPct,
+      1,
+    ),
+    chart(
+      "Requests",
+      [{ values: buckets.map((b) => b.requests), color: "#58a6ff" }],
+      fmtNum,
+    ),
+    chart(
+      "Bandwidth Saved",
+      [{ values: buckets.map((b) => b.bandwidthSaved), color: "#3fb950" }],
+      fmtBytes,
+    ),
+    chart(
+      "Miss Latency p50 / p95",
+      [
+        { values: p95, color: "#30363d" },
+        { values: p50, color: "#d29922" },
+      ],
+      fmtMs,
+    ),
+  ].join("\n    ");
+}
+
+export function renderStatsPage(
+  s: Stats,
+  history: Record<Bucket, StatsBucket[]>,
+  host?: string,
+): string {
   const treasuryWallet = process.env.TREASURY_WALLET_ADDRESS ?? "";
   const registryUrl = host ? `https://${host}` : "https://registry.utopian.build";
 
@@ -43,16 +107,25 @@ export function renderStatsPage(s: Stats, host?: string): string {
     registryUrl,
     "cache.packages": fmtNum(s.cache.packages),
     "cache.totalBytes": fmtBytes(s.cache.totalBytes),
+    "cache.diskBytes":
+      s.cache.diskBytes === null ? "\u2014" : fmtBytes(s.cache.diskBytes),
+    "cache.evictions": fmtNum(s.cache.evictions),
     "requests.total": fmtNum(s.requests.total),
     "requests.hits": fmtNum(s.requests.hits),
+    "requests.notModified": fmtNum(s.requests.notModified),
     "requests.misses": fmtNum(s.requests.misses),
     "requests.passthroughs": fmtNum(s.requests.passthroughs),
     "requests.hitRate": fmtPct(s.requests.hitRate),
     "bandwidth.totalServed": fmtBytes(s.bandwidth.totalServed),
     "bandwidth.totalSaved": fmtBytes(s.bandwidth.totalSaved),
     "bandwidth.savedPct": fmtPct(s.bandwidth.savedPct),
+    "tarballs.hits": fmtNum(s.tarballs.hits),
+    "tarballs.misses": fmtNum(s.tarballs.misses),
+    "tarballs.servedFromCache": fmtBytes(s.tarballs.servedFromCache),
     "sync.packagesUpdated": fmtNum(s.sync.packagesUpdated),
     "sync.lastSync": s.sync.lastSync ?? "\u2014",
+    "history.hour": historyCharts(history.hour),
+    "history.day": historyCharts(history.day),
     uptime: fmtUptime(s.uptime),
     treasuryWallet,
   };
@@ -0,0 +1,362 @@
+import http from "node:http";
+import crypto from "node:crypto";
+import fs from "node:fs";
+import fsp from "node:fs/promises";
+import { upstreamTarballPath, type NpmPackageMetadata } from "./strip.ts";
+import { acquire, release, fetchAndCache } from "./prefetch.ts";
+import {
+  parseLockfile,
+  type Lockfile,
+  type LockfileFormat,
+  type LockedPackage,
+} from "./lockfile.ts";
+import { digestFromDist, tarballPath, fetchTarball } from "./tarballs.ts";
+import { OFFLINE } from "./upstream.ts";
+import { isLocalPackage, RegistryError } from "./storage.ts";
+import { authenticate, isAllowed, deny } from "./auth.ts";
+import { sendJson } from "./publish.ts";
+import { packageFile, isValidPackageName } from "./names.ts";
+import { topPackages } from "./stats.ts";
+import { parseDuration } from "./freshness.ts";
+import { CACHE_DIR } from "./cache.ts";
+
+// Cache warming, so installs find packages already cached: from lockfiles
+// CI posts before installing, and on a schedule from the most requested
+// packages and a seed list
+
+// Lockfiles of large monorepos run to tens of megabytes
+const MAX_LOCKFILE_BYTES = 50 * 1024 * 1024;
+// Finished jobs can be polled for this long
+const JOB_RETENTION_MS = 60 * 60_000;
+// Per job; the rest are only counted
+const MAX_JOB_ERRORS = 50;
+// Packages of one job worked on at once; upstream fetches are limited
+// further by prefetch's semaphore
+const JOB_WORKERS = 5;
+// Jobs running at once; more are refused until one finishes
+const MAX_RUNNING_JOBS = 4;
+
+// The most requested packages of the last WARM_DAYS; 0 disables
+export const WARM_TOP = Number(process.env.WARM_TOP) || 0;
+const WARM_DAYS = Number(process.env.WARM_DAYS) || 30;
+// Package names, one per line, like experiment/benchmark-packages.txt
+export const WARM_SEED_FILE = process.env.WARM_SEED_FILE;
+const WARM_INTERVAL_MS =
+  parseDuration(process.env.WARM_INTERVAL) || 6 * 60 * 60_000;
+
+interface Counts {
+  cached: number;
+  fetched: number;
+  failed: number;
+}
+
+export interface WarmJob {
+  id: string;
+  format: LockfileFormat;
+  state: "running" | "done";
+  createdAt: string;
+  finishedAt: string | null;
+  // name@version entries, and how many have been dealt with
+  total: number;
+  done: number;
+  // Not readable by whoever posted the lockfile, or published here
+  skipped: number;
+  metadata: Counts;
+  // Entries the registry gives no digest or upstream URL for aren't stored
+  tarballs: Counts & { unverifiable: number };
+  errors: string[];
+}
+
+const jobs = new Map<string, WarmJob>();
+
+function pruneJobs(): void {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  for (const [id, job] of jobs) {
+    if (job.finishedAt && Date.parse(job.finishedAt) < cutoff) jobs.delete(id);
+  }
+}
+
+function fail(job: WarmJob, message: string): void {
+  if (job.errors.length < MAX_JOB_ERRORS) job.errors.push(message);
+}
+
+async function readCachedDoc(name: string): Promise<NpmPackageMetadata | null> {
+  try {
+    return JSON.parse(await fsp.readFile(packageFile(CACHE_DIR, name), "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+// One package: its packument, refetched when it lacks a locked version,
+// then the tarball of every locked version. Tarballs are stored under the
+// registry's digest, where the proxy looks them up; the lockfile's is only
+// checked against it.
+async function warmPackage(
+  job: WarmJob,
+  name: string,
+  locked: LockedPackage[],
+): Promise<void> {
+  let doc = await readCachedDoc(name);
+  if (doc && locked.every((p) => doc!.versions?.[p.version])) {
+    job.metadata.cached++;
+  } else {
+    await acquire();
+    try {
+      doc = await fetchAndCache(name);
+    } finally {
+      release();
+    }
+    if (doc) {
+      job.metadata.fetched++;
+    } else {
+      job.metadata.failed++;
+      fail(job, `${name}: metadata not available`);
+    }
+  }
+
+  for (const { version, integrity } of locked) {
+    const dist = doc?.versions?.[version]?.dist;
+    const digest = dist ? digestFromDist(dist) : null;
+    const urlPath = dist?.tarball && upstreamTarballPath(dist.tarball);
+    if (!digest || !urlPath) {
+      job.tarballs.unverifiable++;
+      continue;
+    }
+    const lockedDigest = integrity ? digestFromDist({ integrity }) : null;
+    if (
+      lockedDigest?.algorithm === digest.algorithm &&
+      lockedDigest.hex !== digest.hex
+    ) {
+      job.tarballs.failed++;
+      fail(
+        job,
+        `${name}@${version}: lockfile integrity differs from the registry's`,
+      );
+      continue;
+    }
+    if (fs.existsSync(tarballPath(digest))) {
+      job.tarballs.cached++;
+      continue;
+    }
+    await acquire();
+    try {
+      let status = 0;
+      const stored = await fetchTarball(
+        `job ${job.id}`,
+        { pkg: name, version },
+        urlPath,
+        digest,
+        {},
+        { head: (res) => (status = res.statusCode!), chunk() {}, end() {} },
+      );
+      if (!stored) {
+        throw new Error(
+          status === 200 ? "integrity mismatch" : `upstream ${status}`,
+        );
+      }
+      job.tarballs.fetched++;
+    } catch (err) {
+      job.tarballs.failed++;
+      fail(job, `${name}@${version}: ${(err as Error).message}`);
+    } finally {
+      release();
+    }
+  }
+}
+
+async function runJob(
+  job: WarmJob,
+  byName: Map<string, LockedPackage[]>,
+): Promise<void> {
+  // A fixed set of workers drains the packages: one entry point each into
+  // the shared iterator, however large the lockfile
+  const entries = byName.entries();
+  const worker = async () => {
+    for (const [name, locked] of entries) {
+      await warmPackage(job, name, locked).catch((err) => {
+        fail(job, `${name}: ${(err as Error).message}`);
+      });
+      // Whether or not it got through them all, once only
+      job.done += locked.length;
+    }
+  };
+  await Promise.all(Array.from({ length: JOB_WORKERS }, worker));
+  job.state = "done";
+  job.finishedAt = new Date().toISOString();
+  const { metadata, tarballs } = job;
+  console.log(
+    `  ✓ prefetch job ${job.id}: ${metadata.fetched} packuments and ${tarballs.fetched} tarballs fetched, ${metadata.failed + tarballs.failed} failed`,
+  );
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_LOCKFILE_BYTES) {
+      throw new RegistryError(413, "lockfile too large");
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+export function isPrefetchRoute(url: string): boolean {
+  const p = url.split("?")[0];
+  return p === "/-/prefetch" || p.startsWith("/-/prefetch/");
+}
+
+// POST /-/prefetch (a lockfile as the body) starts a job;
+// GET /-/prefetch/:id reports its progress
+export async function handlePrefetchRequest(
+  id: string,
+  clientReq: http.IncomingMessage,
+  clientRes: http.ServerResponse,
+): Promise<void> {
+  const p = clientReq.url!.split("?")[0];
+  const method = clientReq.method;
+  const identity = authenticate(clientReq);
+
+  try {
+    // CI tokens are usually read-only, so reading is all it takes
+    if (!isAllowed(identity, "read", null)) {
+      deny(identity, "read", null, clientRes);
+      return;
+    }
+
+    if (method === "GET" && p.startsWith("/-/prefetch/")) {
+      const job = jobs.get(p.slice("/-/prefetch/".length));
+      if (!job) throw new RegistryError(404, "no such prefetch job");
+      sendJson(clientRes, 200, job);
+      return;
+    }
+
+    if (method === "POST" && p === "/-/prefetch") {
+      if (OFFLINE) throw new RegistryError(503, "offline mode");
+      const running = [...jobs.values()].filter((j) => j.state === "running");
+      if (running.length >= MAX_RUNNING_JOBS) {
+        throw new RegistryError(
+          429,
+          `${running.length} prefetch jobs are running, try again later`,
+        );
+      }
+      let lockfile: Lockfile;
+      try {
+        lockfile = parseLockfile(await readBody(clientReq));
+      } catch (err) {
+        if (err instanceof RegistryError) throw err;
+        throw new RegistryError(400, (err as Error).message);
+      }
+
+      pruneJobs();
+      const job: WarmJob = {
+        id: crypto.randomUUID(),
+        format: lockfile.format,
+        state: "running",
+        createdAt: new Date().toISOString(),
+        finishedAt: null,
+        total: lockfile.packages.length,
+        done: 0,
+        skipped: 0,
+        metadata: { cached: 0, fetched: 0, failed: 0 },
+        tarballs: { cached: 0, fetched: 0, failed: 0, unverifiable: 0 },
+        errors: [],
+      };
+      const byName = new Map<string, LockedPackage[]>();
+      for (const pkg of lockfile.packages) {
+        if (
+          !isValidPackageName(pkg.name) ||
+          isLocalPackage(pkg.name) ||
+          !isAllowed(identity, "read", pkg.name)
+        ) {
+          job.skipped++;
+          job.done++;
+          continue;
+        }
+        byName.set(pkg.name, [...(byName.get(pkg.name) ?? []), pkg]);
+      }
+      jobs.set(job.id, job);
+      console.log(
+        `  ⚡ ${id} prefetch job ${job.id}: ${job.total} packages from ${job.format}`,
+      );
+      runJob(job, byName);
+
+      sendJson(clientRes, 202, {
+        ok: true,
+        id: job.id,
+        format: job.format,
+        total: job.total,
+        status: `/-/prefetch/${job.id}`,
+      });
+      return;
+    }
+
+    throw new RegistryError(404, "not found");
+  } catch (err) {
+    const status = err instanceof RegistryError ? err.status : 500;
+    const message = (err as Error).message;
+    if (status >= 500) console.error(`  ✗ ${id} ${method} ${p}: ${message}`);
+    if (!clientRes.headersSent) sendJson(clientRes, status, { error: message });
+  }
+}
+
+// Blank lines and # comments are ignored
+export function readSeedList(file: string): string[] {
+  return fs
+    .readFileSync(file, "utf8")
+    .split("\n")
+    .map((line) => line.replace(/#.*/, "").trim())
+    .filter(Boolean);
+}
+
+let warming = false;
+
+// One pass: fetch whatever of the seed list and the most requested packages
+// isn't cached. Shares prefetch's concurrency limit.
+export async function warmPopular(): Promise<void> {
+  if (warming) return;
+  warming = true;
+  try {
+    const seeds = WARM_SEED_FILE ? readSeedList(WARM_SEED_FILE) : [];
+    const popular = WARM_TOP > 0 ? topPackages(WARM_TOP, WARM_DAYS) : [];
+    const names = [...new Set([...seeds, ...popular])].filter(
+      (name) =>
+        isValidPackageName(name) &&
+        !isLocalPackage(name) &&
+        !fs.existsSync(packageFile(CACHE_DIR, name)),
+    );
+    if (names.length === 0) return;
+
+    console.log(
+      `  ⚡ warming ${names.length} packages (${seeds.length} seeded, ${popular.length} most requested)`,
+    );
+    let fetched = 0;
+    await Promise.all(
+      names.map(async (name) => {
+        await acquire();
+        try {
+          if (await fetchAndCache(name)) fetched++;
+        } finally {
+          release();
+        }
+      }),
+    );
+    console.log(`  ✓ warmed ${fetched} of ${names.length} packages`);
+  } finally {
+    warming = false;
+  }
+}
+
+// A pass at startup and every WARM_INTERVAL (6h by default). Offline, or
+// with neither WARM_TOP nor a seed list, there is nothing to warm.
+export function startWarmer(): void {
+  if (OFFLINE || (!WARM_TOP && !WARM_SEED_FILE)) return;
+  const run = () =>
+    warmPopular().catch((err) =>
+      console.error(`  ✗ warming error: ${err.message}`),
+    );
+  run();
+  setInterval(run, WARM_INTERVAL_MS).unref();
+}